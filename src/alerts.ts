@@ -0,0 +1,37 @@
+import { log, now, type LogFields, type LogLevel } from './utils';
+
+// Operational event that needs a human's attention
+export interface Alert {
+  type: string;
+  severity: 'info' | 'warning' | 'critical';
+  message: string;
+  timestamp: number;
+  key?: string; // What the alert is about within its type (e.g. the chain), so one condition can be rate limited apart from another
+  details?: Record<string, unknown>;
+}
+
+export type AlertListener = (alert: Alert) => void;
+
+// Info alerts mirror events their call sites already log, so they're only logged at debug
+const SEVERITY_LOG_LEVELS: Record<Alert['severity'], LogLevel> = { info: 'debug', warning: 'warn', critical: 'error' };
+
+const listeners: AlertListener[] = [];
+
+// Subscribe to every alert (e.g. to forward it to a notification channel)
+export function onAlert(listener: AlertListener): void {
+  listeners.push(listener);
+}
+
+// Log an alert and hand it to every listener; a failing listener never blocks the others
+export function emitAlert(alert: Omit<Alert, 'timestamp'>, fields: LogFields = {}): void {
+  const event: Alert = { ...alert, timestamp: now() };
+  log(`🚨 [${event.type}] ${event.message}`, SEVERITY_LOG_LEVELS[event.severity], fields);
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      log(`Alert listener failed: ${error}`, 'error');
+    }
+  }
+}
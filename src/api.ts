@@ -0,0 +1,224 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { CONFIG } from './clients';
+import { log } from './utils';
+import { lastPrices, gasCosts } from './getters';
+import {
+  paperTrades,
+  pendingTransfers,
+  getPaperChains,
+  getPaperBalance,
+  getInTransitBalance,
+  getPaperTradingStats,
+  runArbitrageCheck,
+  runWithCheckLock,
+  isCheckRunning,
+  loopStats,
+  type PaperTrade,
+} from './arbitrage';
+import { getExecutionBackend } from './execution';
+import { getKillSwitchReason, setKillSwitch } from './risk';
+import { depegBreaker } from './depeg';
+import { rebalanceNow, scheduledMoves } from './rebalancer';
+
+type ApiError = Error & { status: number };
+
+// Request a route can't serve; the message is returned to the caller with the status
+function apiError(status: number, message: string): ApiError {
+  return Object.assign(new Error(message), { status });
+}
+
+function isApiError(error: unknown): error is ApiError {
+  return error instanceof Error && typeof (error as Partial<ApiError>).status === 'number';
+}
+
+interface ApiRequest {
+  query: URLSearchParams;
+  body: unknown;
+}
+
+type RouteHandler = (request: ApiRequest) => unknown | Promise<unknown>;
+
+// Settings operators may change at runtime, with the values each accepts
+const TUNABLE_CONFIG = {
+  PROFIT_THRESHOLD: (value: number) => value >= 0,
+  MAX_TRADE_FRACTION: (value: number) => value > 0 && value <= 1,
+  RISK_MAX_NOTIONAL_USD: (value: number) => value > 0,
+  RISK_MAX_CHAIN_EXPOSURE_USD: (value: number) => value > 0,
+  RISK_MAX_BRIDGE_EXPOSURE_USD: (value: number) => value > 0,
+  RISK_MAX_DAILY_LOSS_USD: (value: number) => value >= 0,
+  RISK_MAX_TRADES_PER_HOUR: (value: number) => Number.isInteger(value) && value >= 0,
+};
+type TunableKey = keyof typeof TUNABLE_CONFIG;
+
+const MAX_BODY_BYTES = 65536;
+const startedAt = Date.now();
+
+function getTunableConfig(): Record<TunableKey, number> {
+  return Object.fromEntries(Object.keys(TUNABLE_CONFIG).map(key => [key, CONFIG[key as TunableKey]])) as Record<TunableKey, number>;
+}
+
+// Apply every change or none: one invalid value rejects the whole update
+function updateConfig(body: unknown): Record<TunableKey, number> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw apiError(400, 'Body must be a JSON object of settings to change');
+  }
+
+  const changes = Object.entries(body);
+  for (const [key, value] of changes) {
+    // Own keys only: inherited ones like constructor or valueOf are not settings
+    const accepts = Object.hasOwn(TUNABLE_CONFIG, key) ? TUNABLE_CONFIG[key as TunableKey] : undefined;
+    if (!accepts) {
+      throw apiError(400, `${key} can't be changed at runtime (tunable: ${Object.keys(TUNABLE_CONFIG).join(', ')})`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || !accepts(value)) {
+      throw apiError(400, `Invalid value for ${key}: ${JSON.stringify(value)}`);
+    }
+  }
+
+  for (const [key, value] of changes as Array<[TunableKey, number]>) {
+    log(`⚙️  ${key} changed from ${CONFIG[key]} to ${value} through the control API`, 'warn');
+    CONFIG[key] = value;
+  }
+  return getTunableConfig();
+}
+
+function getBalances() {
+  return Object.fromEntries(getPaperChains().map(chain => [chain, {
+    tokens: getPaperBalance(chain).tokens,
+    inTransit: getInTransitBalance(chain),
+  }]));
+}
+
+// Newest first; ?limit (default 50) and ?status narrow the list
+function getRecentTrades(query: URLSearchParams): PaperTrade[] {
+  const limit = Math.min(parseInt(query.get('limit') || '50', 10) || 50, 1000);
+  const status = query.get('status');
+  return paperTrades
+    .filter(trade => !status || trade.status === status)
+    .slice(-limit)
+    .reverse();
+}
+
+function getStatus() {
+  const killSwitch = getKillSwitchReason();
+  return {
+    mode: getExecutionBackend().mode,
+    trading: killSwitch ? 'paused' : depegBreaker.tripped ? 'halted' : 'active',
+    killSwitch,
+    depegBreaker,
+    uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+    loop: loopStats,
+    checkRunning: isCheckRunning(),
+    pendingTransfers: pendingTransfers.length,
+    scheduledRebalanceMoves: scheduledMoves,
+    config: getTunableConfig(),
+  };
+}
+
+const routes: Record<string, RouteHandler> = {
+  'GET /status': getStatus,
+  'GET /balances': getBalances,
+  'GET /trades': ({ query }) => getRecentTrades(query),
+  'GET /prices': () => lastPrices,
+  'GET /gas': () => gasCosts,
+  'GET /stats': getPaperTradingStats,
+  'GET /config': getTunableConfig,
+  'PATCH /config': ({ body }) => updateConfig(body),
+  'POST /pause': () => {
+    setKillSwitch(true, 'control API');
+    return { killSwitch: getKillSwitchReason() };
+  },
+  'POST /resume': () => {
+    setKillSwitch(false, 'control API');
+    // The kill switch file still holds trading until it's removed
+    return { killSwitch: getKillSwitchReason() };
+  },
+  'POST /rebalance': async () => {
+    let moves;
+    try {
+      moves = await runWithCheckLock(rebalanceNow);
+    } catch (error) {
+      throw apiError(409, error instanceof Error ? error.message : String(error));
+    }
+    if (!moves) {
+      throw apiError(409, 'An arbitrage check is running, try again shortly');
+    }
+    return { moves };
+  },
+  'POST /check': async () => {
+    const decisions = await runArbitrageCheck(true);
+    return decisions ? { queued: false, decisions } : { queued: true };
+  },
+};
+
+// Constant-time comparison of the bearer token (hashed first so lengths always match)
+function isAuthorized(request: IncomingMessage, token: string): boolean {
+  const presented = request.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  let raw = '';
+  for await (const chunk of request) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw apiError(413, 'Body too large');
+    }
+  }
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw apiError(400, 'Body is not valid JSON');
+  }
+}
+
+// Bigints (block numbers, gas costs) are sent as decimal strings
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, field) => typeof field === 'bigint' ? field.toString() : field);
+}
+
+// Serve the control/status API on API_HOST:API_PORT; refuses to start without API_TOKEN
+export function startApiServer(port: number = CONFIG.API_PORT, host: string = CONFIG.API_HOST, token: string | undefined = CONFIG.API_TOKEN): Server {
+  if (!token) {
+    throw new Error('API_TOKEN must be set to serve the control API');
+  }
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const route = `${request.method} ${url.pathname}`;
+    const send = (status: number, body: unknown) =>
+      response.writeHead(status, { 'Content-Type': 'application/json' }).end(toJson(body));
+
+    if (!isAuthorized(request, token)) {
+      send(401, { error: 'Unauthorized' });
+      return;
+    }
+
+    const handler = routes[route];
+    if (!handler) {
+      send(404, { error: `No route for ${route}` });
+      return;
+    }
+
+    try {
+      const body = request.method === 'GET' ? undefined : await readJsonBody(request);
+      send(200, await handler({ query: url.searchParams, body }));
+    } catch (error) {
+      if (isApiError(error)) {
+        send(error.status, { error: error.message });
+        return;
+      }
+      log(`Control API ${route} failed: ${error}`, 'error');
+      send(500, { error: String(error) });
+    }
+  });
+
+  server.on('error', error => log(`Control API server error: ${error}`, 'error'));
+  server.listen(port, host, () => log(`🎛️  Control API served at http://${host}:${port}`));
+  return server;
+}
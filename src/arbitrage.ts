@@ -1,79 +1,384 @@
 import { PublicClient } from 'viem';
-import { clients, wsClients, CONFIG, CHAIN_NAMES, type ChainName } from './clients';
-import { log, sleep } from './utils';
+import { clients, wsClients, CONFIG, CHAIN_NAMES, CHAIN_CONFIGS, type ChainName } from './clients';
+import { log, logWith, sleep, now, type LogFields } from './utils';
 import {
   lastPrices,
   gasCosts,
   getAllChainData,
   calculateTotalArbitrageGasCost,
-  getGasCostInUSD,
   getPoolPrice,
+  getUSDPrice,
   getAllPoolMetadata,
-  type PoolMetadata
+  getTokenIndex,
+  quoteSwap,
+  poolStates,
+  applySwapEvent,
+  applyLiquidityEvent,
+  applySyncEvent,
+  applyFeeEvent,
+  POOL_EVENTS_ABI,
+  V2_SYNC_EVENT_ABI,
+  SOLIDLY_SYNC_EVENT_ABI,
+  type PoolMetadata,
+  type SwapQuote
 } from './getters';
+import { solveOptimalTradeSize, logTradeSizeSolution } from './sizing';
+import { appendLedgerEvent, readLedger, resetLedger, type LegacyTokenBalance } from './ledger';
+import { getBestBridgeQuote } from './bridges';
+import { recordMarketSnapshot } from './recorder';
+import { estimateRouteGas, estimatePathGas, getRouteGasCostUSD } from './gas';
+import { findCycles, getCyclePools, getCycleBridgeFee, quoteCycle, type Cycle } from './cycles';
+import { refreshStablecoinPrices, updateDepegBreaker, depegBreaker, isStablecoin } from './depeg';
+import { findPriceFeedChain } from './oracles';
+import { refreshTokenPrices, getTokenPriceUSD, getTokenValueUSD } from './valuation';
+import { checkTradeRisk, type TradeProposal } from './risk';
+import { emitAlert } from './alerts';
+import { rebalanceInventory, rebalanceMoves, completeRebalanceMove } from './rebalancer';
+import { getExecutionBackend, getSentTransactions, simulateTrade, swapError, type ExecutionBackend, type SwapFill, type TradeTransaction, type TradeSimulation } from './execution';
+import { getRegistry, getRegisteredPool, getRegisteredPools, getRegisteredChains, getCrossChainPoolPairs, resolveTokenAlias, type RegistryPool } from './registry';
 
 // Paper trading balance tracking
 export interface TokenBalance {
-  usdc: number;
-  usdt: number;
+  tokens: Record<string, number>; // Amount held per canonical registry token symbol
   timestamp: number;
 }
 
+// One direction of a cross-chain round trip: swap the start token for the bridge token on the buy pool,
+// bridge it, then swap it back into more of the start token on the sell pool
+export interface ArbitrageRoute {
+  startToken: string;
+  bridgeToken: string;
+  buyPool: string;  // Where the bridge token is cheaper in start token terms
+  sellPool: string;
+}
+
 export interface PaperTrade {
   id: string;
   sourceChain: string;
   targetChain: string;
-  sourcePrice: number;
+  sourcePool: string;
+  targetPool: string;
+  token?: string;      // Token the trade starts and ends with (absent on trades recorded before multi-token support)
+  bridgeToken?: string; // Token carried between the legs
+  sourcePrice: number; // Start token per bridge token on each pool
   targetPrice: number;
-  amount: number;
-  profit: number;
+  amount: number;      // Start token spent on the first leg
+  profit: number;      // In the start token
+
   gasCost: number;
+  bridge: string;      // 'none' for same-chain cycles
+  bridgeCost: number;
   netProfit: number;
   timestamp: number;
   status: 'executed' | 'failed' | 'pending';
+  mode?: ExecutionBackend['mode']; // Absent on trades recorded before execution backends existed
+  transactions?: TradeTransaction[]; // Approvals and swaps sent in live mode, with their receipts
+  simulation?: TradeSimulation; // Pre-trade eth_call of both legs
+  settledAt?: number; // When the second leg settled or failed
+  route?: string[];   // Every pool swapped through, for multi-hop cycles (sourcePool and targetPool are the first and last)
 }
 
-// Paper trading state
-export const paperBalances: Record<string, TokenBalance> = {
-  avalanche: { usdc: 50000, usdt: 50000, timestamp: Date.now() }, // Start with 5k USDC and 5k USDT
-  sonic: { usdc: 50000, usdt: 50000, timestamp: Date.now() },     // Start with 5k USDC and 5k USDT
-};
+// Tokens moving between chains through a bridge, credited to the destination only on arrival
+export interface PendingTransfer {
+  tradeId: string;              // Trade or rebalance move that started the transfer
+  token: string;                // Token being bridged
+  amount: number;
+  fromChain: string;
+  toChain: string;
+  toPool?: string;              // Pool where the second leg settles on arrival (none for rebalancing transfers)
+  onwardPools?: string[];       // Further pools the second leg swaps through, for multi-hop cycles
+  bridge: string;
+  arrivalTime: number;
+  status: 'in-transit' | 'settled';
+}
+
+// Outcome of checking one pool pair, with the reason behind it (captured by the market-data recorder)
+export interface ArbitrageDecision {
+  strategy: string; // `<start token>-targeted` for pool pairs, `<start token>-cycle` for multi-hop cycles
+  buyPool: string;  // For cycles, the first and last pool swapped through
+  sellPool: string;
+  cycle?: string;   // Path of the multi-hop cycle checked
+  action: 'trade' | 'skip';
+  reason: string;
+  amount?: number;
+  netProfit?: number;
+  tradeId?: string;
+  simulation?: TradeSimulation;
+}
+
+// Paper trading state: chains start with each registered token's paperBalance until first touched
+export const paperBalances: Record<string, TokenBalance> = {};
 
 export const paperTrades: PaperTrade[] = [];
 
+export const pendingTransfers: PendingTransfer[] = [];
+
 // Paper trading functions
 export function getPaperBalance(chainName: string): TokenBalance {
-  return paperBalances[chainName] || { usdc: 0, usdt: 0, timestamp: Date.now() };
+  return paperBalances[chainName] || { tokens: getStartingBalances(chainName), timestamp: now() };
 }
 
-export function updatePaperBalance(chainName: string, usdc: number, usdt: number): void {
-  paperBalances[chainName] = {
-    usdc,
-    usdt,
-    timestamp: Date.now()
-  };
+export function getTokenBalance(chainName: string, token: string): number {
+  return getPaperBalance(chainName).tokens[token] ?? 0;
+}
+
+// Chains with a balance: every registered chain plus any restored from the ledger
+export function getPaperChains(): string[] {
+  return [...new Set([...getRegisteredChains(), ...Object.keys(paperBalances)])];
+}
+
+// Add (or, when negative, remove) an amount of a token on a chain
+export function adjustPaperBalance(chainName: string, token: string, delta: number): void {
+  const tokens = { ...getPaperBalance(chainName).tokens };
+  tokens[token] = (tokens[token] ?? 0) + delta;
+  paperBalances[chainName] = { tokens, timestamp: now() };
+  appendLedgerEvent({ type: 'balance', chain: chainName, balance: paperBalances[chainName] });
+
+  log(`Paper balance updated for ${chainName}: ${formatTokenAmounts(tokens)}`);
+}
 
-  log(`Paper balance updated for ${chainName}: USDC=${usdc.toFixed(2)}, USDT=${usdt.toFixed(2)}`);
+// Starting balance of every token registered on a chain
+function getStartingBalances(chainName: string): Record<string, number> {
+  const { tokens, chains } = getRegistry();
+  return Object.fromEntries(
+    Object.keys(chains[chainName]?.tokens ?? {}).map(token => [token, tokens[token]?.paperBalance ?? 0])
+  );
 }
 
-export function addPaperTrade(trade: Omit<PaperTrade, 'id' | 'timestamp'>): void {
+function formatTokenAmounts(amounts: Record<string, number>): string {
+  return Object.entries(amounts).map(([token, amount]) => `${token}=${amount.toFixed(2)}`).join(', ');
+}
+
+export function addPaperTrade(trade: Omit<PaperTrade, 'id' | 'timestamp'>): PaperTrade {
   const paperTrade: PaperTrade = {
     ...trade,
-    id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    timestamp: Date.now()
+    id: `trade_${now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: now()
   };
 
   paperTrades.push(paperTrade);
-  log(`Paper trade recorded: ${paperTrade.id} - ${trade.sourceChain} → ${trade.targetChain} - Profit: $${trade.netProfit.toFixed(4)}`);
+  appendLedgerEvent({ type: 'trade', trade: paperTrade });
+  const fields: LogFields = { tradeId: paperTrade.id, chain: trade.sourceChain, pool: trade.route ?? [trade.sourcePool, trade.targetPool] };
+  log(`Paper trade recorded: ${paperTrade.id} - ${trade.sourceChain} → ${trade.targetChain} - Profit: $${trade.netProfit.toFixed(4)} (${trade.status})`, 'info', fields);
+  emitAlert({
+    type: 'trade-executed',
+    severity: 'info',
+    key: paperTrade.id,
+    message: `Trade ${paperTrade.id} executed ${trade.sourceChain} → ${trade.targetChain}: ${trade.amount.toFixed(2)} ${trade.token}, ${trade.status === 'pending' ? 'expected net $' + trade.netProfit.toFixed(4) + ' (pending settlement)' : 'net $' + trade.netProfit.toFixed(4)}`,
+    details: { tradeId: paperTrade.id, netProfit: trade.netProfit, status: trade.status }
+  }, fields);
+
+  return paperTrade;
+}
+
+export function updatePaperTrade(tradeId: string, changes: Partial<Omit<PaperTrade, 'id' | 'timestamp'>>): PaperTrade | undefined {
+  const trade = paperTrades.find(t => t.id === tradeId);
+  if (!trade) {
+    log(`Cannot update unknown paper trade ${tradeId}`, 'error', { tradeId });
+    return undefined;
+  }
+
+  Object.assign(trade, changes);
+  appendLedgerEvent({ type: 'trade', trade });
+  log(`Paper trade updated: ${trade.id} - ${trade.status} - Profit: $${trade.netProfit.toFixed(4)}`, 'info', { tradeId });
+
+  return trade;
+}
+
+// Put bridged tokens in transit until the bridge's simulated arrival time
+export function startBridgeTransfer(transfer: Omit<PendingTransfer, 'status'>): void {
+  const pending: PendingTransfer = { ...transfer, status: 'in-transit' };
+  pendingTransfers.push(pending);
+  appendLedgerEvent({ type: 'transfer', transfer: pending });
+
+  const etaSeconds = Math.max(0, (transfer.arrivalTime - now()) / 1000);
+  log(`🌉 ${transfer.amount.toFixed(4)} ${transfer.token} in transit ${transfer.fromChain} → ${transfer.toChain} via ${transfer.bridge} (arrives in ${etaSeconds.toFixed(0)}s)`, 'info', { tradeId: transfer.tradeId, chain: transfer.fromChain });
+}
+
+// Funds currently in transit towards a chain, per token
+export function getInTransitBalance(chainName: string): Record<string, number> {
+  const inTransit: Record<string, number> = {};
+
+  for (const transfer of pendingTransfers) {
+    if (transfer.toChain === chainName) {
+      inTransit[transfer.token] = (inTransit[transfer.token] ?? 0) + transfer.amount;
+    }
+  }
+
+  return inTransit;
+}
+
+// Settle the second leg of every transfer that has arrived
+export async function settlePendingTransfers(at: number = now()): Promise<void> {
+  const arrived = pendingTransfers.filter(transfer => transfer.arrivalTime <= at);
+
+  for (const transfer of arrived) {
+    // Another settlement pass may have taken it while this one was waiting on a swap
+    const index = pendingTransfers.indexOf(transfer);
+    if (index === -1) continue;
+
+    pendingTransfers.splice(index, 1);
+    appendLedgerEvent({ type: 'transfer', transfer: { ...transfer, status: 'settled' } });
+
+    // Rebalancing transfers have no second leg: the tokens are simply credited
+    if (!transfer.toPool) {
+      adjustPaperBalance(transfer.toChain, transfer.token, transfer.amount);
+      completeRebalanceMove(transfer.tradeId);
+      log(`✅ Rebalancing transfer ${transfer.tradeId} arrived on ${transfer.toChain}: ${transfer.amount.toFixed(4)} ${transfer.token}`, 'info', { tradeId: transfer.tradeId, chain: transfer.toChain });
+      continue;
+    }
+
+    const trade = paperTrades.find(t => t.id === transfer.tradeId);
+    const outToken = trade?.token ?? getRegisteredPool(transfer.toPool).tokens.find(token => token !== transfer.token)!;
+
+    // What the second leg holds so far: the bridged tokens until a swap fills
+    let held = { token: transfer.token, amount: transfer.amount };
+
+    try {
+      // Second leg fills against the pools as they are now, not as they were when the trade started
+      const secondLeg = await executeSwapPath(getExecutionBackend(), [transfer.toPool, ...(transfer.onwardPools ?? [])], held, filled => { held = filled; });
+      adjustPaperBalance(transfer.toChain, outToken, held.amount);
+
+      if (trade) {
+        const profit = held.amount - trade.amount;
+        updatePaperTrade(trade.id, {
+          targetPrice: held.amount / transfer.amount,
+          profit,
+          netProfit: getTokenValueUSD(transfer.toChain, outToken, profit) - trade.gasCost - trade.bridgeCost,
+          status: 'executed',
+          settledAt: now(),
+          transactions: [...(trade.transactions ?? []), ...secondLeg]
+        });
+      }
+
+      log(`✅ Transfer for ${transfer.tradeId} settled on ${transfer.toChain}: ${transfer.amount.toFixed(4)} ${transfer.token} → ${held.amount.toFixed(4)} ${outToken}`, 'info', { tradeId: transfer.tradeId, chain: transfer.toChain });
+      if (trade) {
+        emitAlert({ type: 'trade-settled', severity: 'info', key: trade.id, message: `Trade ${trade.id} settled on ${transfer.toChain}: net $${trade.netProfit.toFixed(4)}`, details: { tradeId: trade.id, netProfit: trade.netProfit } }, { tradeId: trade.id, chain: transfer.toChain });
+      }
+
+    } catch (error) {
+      // The bridged tokens still arrive; they just can't be swapped (all the way) back. Credit them under the
+      // registry symbol (transfers from older ledgers may carry an on-chain one like USDt) so they keep their value
+      held = { token: resolveTokenAlias(held.token), amount: held.amount };
+      adjustPaperBalance(transfer.toChain, held.token, held.amount);
+
+      if (trade) {
+        // The unswapped tokens count at their USD value, in start token terms
+        const startPriceUSD = getTokenPriceUSD(transfer.toChain, outToken) ?? 1;
+        const profit = getTokenValueUSD(transfer.toChain, held.token, held.amount) / startPriceUSD - trade.amount;
+        updatePaperTrade(trade.id, {
+          profit,
+          netProfit: profit * startPriceUSD - trade.gasCost - trade.bridgeCost,
+          status: 'failed',
+          settledAt: now(),
+          transactions: [...(trade.transactions ?? []), ...getSentTransactions(error)]
+        });
+      }
+
+      emitAlert({
+        type: 'trade-failed',
+        severity: 'critical',
+        key: transfer.tradeId,
+        message: `❌ Second leg of ${transfer.tradeId} failed on ${transfer.toChain}, ${held.amount.toFixed(4)} ${held.token} credited unswapped: ${error}`,
+        details: { tradeId: transfer.tradeId, chain: transfer.toChain }
+      }, { tradeId: transfer.tradeId, chain: transfer.toChain });
+    }
+  }
+}
+
+// Fill swaps through the given pools one after the other, each on the previous one's actual output.
+// onFill sees every filled amount, so a caller knows what it holds if a later swap fails
+async function executeSwapPath(
+  backend: ExecutionBackend,
+  pools: string[],
+  amountIn: { token: string; amount: number },
+  onFill: (filled: { token: string; amount: number }) => void = () => {}
+): Promise<TradeTransaction[]> {
+  const transactions: TradeTransaction[] = [];
+  let held = amountIn;
+
+  for (const pool of pools) {
+    const quote = quoteSwap(pool, held.token, held.amount);
+    logSwapQuotes(quote);
+    let fill: SwapFill;
+    try {
+      fill = await backend.executeSwap(quote);
+    } catch (error) {
+      // The earlier swaps went out too
+      throw swapError(error instanceof Error ? error.message : String(error), [...transactions, ...getSentTransactions(error)]);
+    }
+    held = { token: quote.tokenOut, amount: fill.amountOut };
+    transactions.push(...fill.transactions);
+    onFill(held);
+  }
+
+  return transactions;
+}
+
+// Rebuild paper balances and trades from the ledger (or start fresh when reset is requested)
+export function restorePaperTradingState(reset: boolean = false): void {
+  if (reset) {
+    resetLedger();
+    log('🚀 Starting with a fresh paper trading ledger');
+    return;
+  }
+
+  const events = readLedger();
+  for (const event of events) {
+    if (event.type === 'balance') {
+      paperBalances[event.chain] = migrateBalance(event.balance);
+    } else if (event.type === 'trade') {
+      // Later events for the same trade id supersede earlier ones
+      const index = paperTrades.findIndex(trade => trade.id === event.trade.id);
+      if (index === -1) {
+        paperTrades.push(event.trade);
+      } else {
+        paperTrades[index] = event.trade;
+      }
+    } else if (event.type === 'transfer') {
+      // Transfers stay in transit until their settled event is seen
+      const index = pendingTransfers.findIndex(transfer => transfer.tradeId === event.transfer.tradeId);
+      if (index !== -1) {
+        pendingTransfers.splice(index, 1);
+      }
+      if (event.transfer.status === 'in-transit') {
+        pendingTransfers.push(event.transfer);
+      }
+    } else if (event.type === 'rebalance') {
+      const index = rebalanceMoves.findIndex(move => move.id === event.move.id);
+      if (index === -1) {
+        rebalanceMoves.push(event.move);
+      } else {
+        rebalanceMoves[index] = event.move;
+      }
+    }
+  }
+
+  if (events.length > 0) {
+    log(`📒 Restored paper trading state from ledger: ${events.length} events, ${paperTrades.length} trades, ${pendingTransfers.length} transfers in transit`);
+  }
+}
+
+// Balances were recorded with fixed usdc/usdt fields before they were keyed by token
+function migrateBalance(balance: TokenBalance | LegacyTokenBalance): TokenBalance {
+  if ('tokens' in balance) {
+    return balance;
+  }
+  return { tokens: { USDC: balance.usdc, USDT: balance.usdt }, timestamp: balance.timestamp };
 }
 
 export function calculateTotalPaperValue(): number {
   let totalValue = 0;
 
-  for (const [chainName, balance] of Object.entries(paperBalances)) {
-    const usdcValue = balance.usdc * 1.0; // USDC = $1
-    const usdtValue = balance.usdt * 1.0; // USDT = $1
-    totalValue += usdcValue + usdtValue;
+  for (const chainName of getPaperChains()) {
+    for (const [token, amount] of Object.entries(getPaperBalance(chainName).tokens)) {
+      totalValue += getTokenValueUSD(chainName, token, amount);
+    }
+  }
+
+  // Funds in transit are still ours
+  for (const transfer of pendingTransfers) {
+    totalValue += getTokenValueUSD(transfer.toChain, transfer.token, transfer.amount);
   }
 
   return totalValue;
@@ -82,22 +387,34 @@ export function calculateTotalPaperValue(): number {
 export function getPaperTradingStats(): {
   totalTrades: number;
   profitableTrades: number;
+  pendingTrades: number;
   totalProfit: number;
   totalValue: number;
   winRate: number;
+  rebalances: number;
+  rebalanceCost: number;
 } {
-  const totalTrades = paperTrades.length;
-  const profitableTrades = paperTrades.filter(trade => trade.netProfit > 0).length;
-  const totalProfit = paperTrades.reduce((sum, trade) => sum + trade.netProfit, 0);
+  // Pending trades only carry an expected profit until their second leg settles
+  const settledTrades = paperTrades.filter(trade => trade.status !== 'pending');
+  const totalTrades = settledTrades.length;
+  const pendingTrades = paperTrades.length - settledTrades.length;
+  const profitableTrades = settledTrades.filter(trade => trade.netProfit > 0).length;
+  const totalProfit = settledTrades.reduce((sum, trade) => sum + trade.netProfit, 0);
   const totalValue = calculateTotalPaperValue();
   const winRate = totalTrades > 0 ? (profitableTrades / totalTrades) * 100 : 0;
 
+  // Rebalancing costs reduce the portfolio value but aren't arbitrage P&L
+  const rebalanceCost = rebalanceMoves.reduce((sum, move) => sum + move.totalCost, 0);
+
   return {
     totalTrades,
     profitableTrades,
+    pendingTrades,
     totalProfit,
     totalValue,
-    winRate
+    winRate,
+    rebalances: rebalanceMoves.length,
+    rebalanceCost
   };
 }
 
@@ -130,307 +447,395 @@ export async function checkPriceDifference(
   }
 }
 
-// Execute USDC-targeted arbitrage: Start with USDC, end with more USDC
-export async function executeUSDCTargetedArbitrage(
-  buyChain: string,
-  sellChain: string,
-  buyPriceUSDCperUSDT: number,
-  sellPriceUSDCperUSDT: number,
-  tradeAmountUSDC: number
+// Approve (live) and eth_call both legs before anything is swapped, unless SIMULATE_TRADES is off
+async function simulateBeforeExecution(
+  backend: ExecutionBackend,
+  quotes: SwapQuote[]
+): Promise<{ simulation?: TradeSimulation; approvals: TradeTransaction[] }> {
+  if (!CONFIG.SIMULATE_TRADES) {
+    return { approvals: [] };
+  }
+
+  // A router without allowance reverts in simulation, so live approvals have to come first
+  const approvals: TradeTransaction[] = [];
+  if (backend.approve) {
+    for (const quote of quotes) {
+      approvals.push(...await backend.approve(quote));
+    }
+  }
+
+  const simulation = await simulateTrade(quotes);
+  if (simulation.skipped) {
+    log(`🧪 Trade goes ahead unsimulated: ${simulation.reason}`, 'warn', { pool: quotes.map(quote => quote.pool) });
+  }
+  for (const leg of simulation.legs) {
+    log(`🧪 Simulated ${leg.pool}: ${leg.amountIn.toFixed(4)} in → ${leg.simulatedAmountOut?.toFixed(4) ?? 'reverted'} out (quoted ${leg.quotedAmountOut.toFixed(4)}${leg.deviationBps !== undefined ? `, ${leg.deviationBps.toFixed(1)} bps short` : ''}${leg.gasUsed ? `, gas ${leg.gasUsed}` : ''})`, 'info', { pool: leg.pool });
+  }
+
+  return { simulation, approvals };
+}
+
+// Why a trade went ahead, flagged when the pre-trade simulation couldn't run
+function getTradeReason(simulation?: TradeSimulation): string {
+  return simulation?.skipped ? `profitable, unsimulated (${simulation.reason})` : 'profitable';
+}
+
+function getRouteStrategy(route: ArbitrageRoute): string {
+  return `${route.startToken}-targeted`;
+}
+
+// Execute a round trip: the first leg fills now, and the trade stays pending until the bridged tokens
+// arrive and the second leg settles
+export async function executeTargetedArbitrage(
+  route: ArbitrageRoute,
+  buyPrice: number,
+  sellPrice: number,
+  tradeAmount: number
 ): Promise<void> {
+  const { startToken, bridgeToken, buyPool, sellPool } = route;
+  const strategy = getRouteStrategy(route);
+  const fields: LogFields = { pool: [buyPool, sellPool] };
+  const logTrade = logWith(fields);
+
   try {
-    log(`Executing USDC-targeted arbitrage: Buy USDT on ${buyChain} at ${buyPriceUSDCperUSDT} USDC/USDT, sell on ${sellChain} at ${sellPriceUSDCperUSDT} USDC/USDT (Amount: ${tradeAmountUSDC} USDC)`);
+    const buyChain = getRegisteredPool(buyPool).chain;
+    const sellChain = getRegisteredPool(sellPool).chain;
 
-    // Paper trading logic for USDC-targeted arbitrage
-    const sourceBalance = getPaperBalance(buyChain);
-    const targetBalance = getPaperBalance(sellChain);
+    logTrade(`Executing ${strategy} arbitrage: Buy ${bridgeToken} on ${buyPool} at ${buyPrice} ${startToken}/${bridgeToken}, sell on ${sellPool} at ${sellPrice} ${startToken}/${bridgeToken} (Amount: ${tradeAmount} ${startToken})`);
 
     // Log balances before trade
-    log(`📊 Pre-trade balances:`);
-    log(`  ${buyChain}: ${sourceBalance.usdc.toFixed(2)} USDC, ${sourceBalance.usdt.toFixed(2)} USDT`);
-    log(`  ${sellChain}: ${targetBalance.usdc.toFixed(2)} USDC, ${targetBalance.usdt.toFixed(2)} USDT`);
-
-    // Check if we have enough USDC to execute the trade
-    if (sourceBalance.usdc < tradeAmountUSDC) {
-      log(`Insufficient USDC on ${buyChain} for USDC-targeted paper trade. Available: ${sourceBalance.usdc}, Required: ${tradeAmountUSDC}`, 'warn');
+    logTrade(`📊 Pre-trade balances:`);
+    logTrade(`  ${buyChain}: ${formatTokenAmounts(getPaperBalance(buyChain).tokens)}`);
+    logTrade(`  ${sellChain}: ${formatTokenAmounts(getPaperBalance(sellChain).tokens)}`);
+
+    // Check if we have enough of the start token to execute the trade
+    const available = getTokenBalance(buyChain, startToken);
+    if (available < tradeAmount) {
+      logTrade(`Insufficient ${startToken} on ${buyChain} for ${strategy} paper trade. Available: ${available}, Required: ${tradeAmount}`, 'warn');
+      recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: `insufficient ${startToken} on ${buyChain}`, amount: tradeAmount });
       return;
     }
 
-    // USDC-targeted arbitrage calculation
-    // 1. Buy USDT with USDC on buyChain (cheaper price)
-    // 2. Transfer USDT to sellChain (cross-chain bridge)
-    // 3. Sell USDT for USDC on sellChain (more expensive price)
-    // 4. End with USDC only on sellChain
+    // Round trip:
+    // 1. Buy the bridge token with the start token on buyChain (cheaper price)
+    // 2. Transfer the bridge token to sellChain (cross-chain bridge)
+    // 3. Sell the bridge token for the start token on sellChain (more expensive price)
+    // 4. End with more of the start token, on sellChain
+
+    // Fill both legs against the simulated pool liquidity
+    const buyQuote = quoteSwap(buyPool, startToken, tradeAmount);
+    const sellQuote = quoteSwap(sellPool, bridgeToken, buyQuote.amountOut);
+    logSwapQuotes(buyQuote, sellQuote);
 
-    const usdtReceived = tradeAmountUSDC / buyPriceUSDCperUSDT; // USDT received from buying
-    const usdcReceived = usdtReceived * sellPriceUSDCperUSDT; // USDC received from selling
+    const bridgedAmount = buyQuote.amountOut; // Bridge token bought on the first leg
+    const amountReceived = sellQuote.amountOut; // Start token received from the second leg
 
-    // Calculate profits in USDC terms
-    const grossProfitUSDC = usdcReceived - tradeAmountUSDC;
-    const [sourceGasUSD, targetGasUSD] = await Promise.all([
-      getGasCostInUSD(buyChain),
-      getGasCostInUSD(sellChain)
-    ]);
-    const gasCostUSD = sourceGasUSD + targetGasUSD;
-    const netProfitUSD = grossProfitUSDC - gasCostUSD;
+    // Profit in the start token, valued in USD against gas and bridge costs
+    const grossProfit = amountReceived - tradeAmount;
+
+    // Pay for bridging the first leg's output
+    const bridgeQuote = getBestBridgeQuote(bridgeToken, buyChain, sellChain, bridgedAmount);
+    if (!bridgeQuote) {
+      logTrade(`No bridge route for ${bridgedAmount.toFixed(2)} ${bridgeToken} from ${buyChain} to ${sellChain}, ${strategy} paper trade not executed`, 'warn');
+      recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: `no bridge route for ${bridgeToken} from ${buyChain} to ${sellChain}`, amount: tradeAmount });
+      return;
+    }
+
+    // Gas for the route as it will actually be sent: approvals, both swaps and the bridge transfer
+    const gasCostUSD = await getRouteGasCostUSD(await estimateRouteGas(buyQuote, sellQuote, bridgeQuote));
+    const netProfitUSD = getTokenValueUSD(buyChain, startToken, grossProfit) - gasCostUSD - bridgeQuote.feeUSD;
 
     // Only execute and record the trade if it's profitable
     if (netProfitUSD > CONFIG.PROFIT_THRESHOLD) {
-      // Update paper balances - simulate cross-chain transfer
-      const newSourceBalance = {
-        usdc: sourceBalance.usdc - tradeAmountUSDC, // Spend USDC
-        usdt: sourceBalance.usdt, // No USDT left (transferred to other chain)
-        timestamp: Date.now()
-      };
-
-      const newTargetBalance = {
-        usdc: targetBalance.usdc + usdcReceived, // Receive USDC from selling USDT
-        usdt: targetBalance.usdt, // No USDT left (sold for USDC)
-        timestamp: Date.now()
-      };
-
-      // Record the paper trade
-      addPaperTrade({
+      // First leg settles now through the execution backend: spend the start token on the source chain, the bridge token goes into transit
+      const backend = getExecutionBackend();
+      const gate = await simulateBeforeExecution(backend, [buyQuote, sellQuote]);
+      if (gate.simulation && !gate.simulation.passed) {
+        logTrade(`${strategy} trade rejected by pre-trade simulation: ${gate.simulation.reason}`, 'warn');
+        recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: gate.simulation.reason!, amount: tradeAmount, netProfit: netProfitUSD, simulation: gate.simulation });
+        return;
+      }
+
+      let firstLeg: SwapFill;
+      try {
+        firstLeg = await backend.executeSwap(buyQuote);
+      } catch (error) {
+        // Nothing was swapped, but the approvals and the reverted swap still cost gas
+        addPaperTrade({
+          sourceChain: buyChain,
+          targetChain: sellChain,
+          sourcePool: buyPool,
+          targetPool: sellPool,
+          token: startToken,
+          bridgeToken,
+          sourcePrice: buyPrice,
+          targetPrice: sellPrice,
+          amount: tradeAmount,
+          profit: 0,
+          gasCost: gasCostUSD,
+          bridge: bridgeQuote.bridge,
+          bridgeCost: 0,
+          netProfit: -gasCostUSD,
+          status: 'failed',
+          mode: backend.mode,
+          transactions: [...gate.approvals, ...getSentTransactions(error)],
+          simulation: gate.simulation,
+          settledAt: now()
+        });
+        throw error;
+      }
+
+      // Record the paper trade as pending until the second leg settles
+      const trade = addPaperTrade({
         sourceChain: buyChain,
         targetChain: sellChain,
-        sourcePrice: buyPriceUSDCperUSDT,
-        targetPrice: sellPriceUSDCperUSDT,
-        amount: tradeAmountUSDC,
-        profit: grossProfitUSDC,
+        sourcePool: buyPool,
+        targetPool: sellPool,
+        token: startToken,
+        bridgeToken,
+        sourcePrice: buyPrice,
+        targetPrice: sellPrice,
+        amount: tradeAmount,
+        profit: grossProfit,
         gasCost: gasCostUSD,
+        bridge: bridgeQuote.bridge,
+        bridgeCost: bridgeQuote.feeUSD,
         netProfit: netProfitUSD,
-        status: 'executed'
+        status: 'pending',
+        mode: backend.mode,
+        transactions: [...gate.approvals, ...firstLeg.transactions],
+        simulation: gate.simulation
+      });
+      fields.tradeId = trade.id;
+
+      // Spend the start token (the bought bridge token goes straight into the bridge) and start the bridge transfer
+      adjustPaperBalance(buyChain, startToken, -tradeAmount);
+      startBridgeTransfer({
+        tradeId: trade.id,
+        token: bridgeToken,
+        amount: firstLeg.amountOut,
+        fromChain: buyChain,
+        toChain: sellChain,
+        toPool: sellPool,
+        bridge: bridgeQuote.bridge,
+        arrivalTime: now() + bridgeQuote.settlementTimeSec * 1000
       });
-
-      // Update balances
-      updatePaperBalance(buyChain, newSourceBalance.usdc, newSourceBalance.usdt);
-      updatePaperBalance(sellChain, newTargetBalance.usdc, newTargetBalance.usdt);
 
       // Log post-trade balances
-      log(`📊 Post-trade balances:`);
-      log(`  ${buyChain}: ${newSourceBalance.usdc.toFixed(2)} USDC, ${newSourceBalance.usdt.toFixed(2)} USDT`);
-      log(`  ${sellChain}: ${newTargetBalance.usdc.toFixed(2)} USDC, ${newTargetBalance.usdt.toFixed(2)} USDT`);
+      logTrade(`📊 Post-trade balances:`);
+      logTrade(`  ${buyChain}: ${formatTokenAmounts(getPaperBalance(buyChain).tokens)}`);
+      logTrade(`  In transit to ${sellChain}: ${firstLeg.amountOut.toFixed(2)} ${bridgeToken}`);
+
+      recordDecision({ strategy, buyPool, sellPool, action: 'trade', reason: getTradeReason(gate.simulation), amount: tradeAmount, netProfit: netProfitUSD, tradeId: trade.id, simulation: gate.simulation });
 
       // Log trade summary
       const stats = getPaperTradingStats();
-      log(`📊 USDC-Targeted Paper Trade Summary:`);
-      log(`  Start: ${tradeAmountUSDC} USDC`);
-      log(`  End: ${usdcReceived.toFixed(4)} USDC`);
-      log(`  Gross Profit: ${grossProfitUSDC.toFixed(4)} USDC`);
-      log(`  Gas Cost: $${gasCostUSD.toFixed(4)}`);
-      log(`  Net Profit: $${netProfitUSD.toFixed(4)}`);
-      log(`  Total Portfolio Value: $${stats.totalValue.toFixed(2)}`);
-      log(`  Total Profit: $${stats.totalProfit.toFixed(4)}`);
-      log(`  Win Rate: ${stats.winRate.toFixed(1)}%`);
+      logTrade(`📊 ${strategy} Paper Trade Summary (pending settlement):`);
+      logTrade(`  Start: ${tradeAmount} ${startToken}`);
+      logTrade(`  Expected End: ${amountReceived.toFixed(4)} ${startToken}`);
+      logTrade(`  Expected Gross Profit: ${grossProfit.toFixed(4)} ${startToken}`);
+      logTrade(`  Gas Cost: $${gasCostUSD.toFixed(4)}`);
+      logTrade(`  Bridge Cost (${bridgeToken} via ${bridgeQuote.bridge}): $${bridgeQuote.feeUSD.toFixed(4)}, settles in ${bridgeQuote.settlementTimeSec}s`);
+      logTrade(`  Expected Net Profit: $${netProfitUSD.toFixed(4)}`);
+      logTrade(`  Total Portfolio Value: $${stats.totalValue.toFixed(2)}`);
+      logTrade(`  Total Profit: $${stats.totalProfit.toFixed(4)}`);
+      logTrade(`  Win Rate: ${stats.winRate.toFixed(1)}%`);
 
     } else {
-      log(`USDC-targeted paper trade not executed - insufficient profit (Net: $${netProfitUSD.toFixed(4)}, Threshold: $${CONFIG.PROFIT_THRESHOLD})`, 'warn');
+      logTrade(`${strategy} paper trade not executed - insufficient profit (Net: $${netProfitUSD.toFixed(4)}, Threshold: $${CONFIG.PROFIT_THRESHOLD})`, 'warn');
+      recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: 'below profit threshold', amount: tradeAmount, netProfit: netProfitUSD });
     }
 
   } catch (error) {
-    log(`Failed to execute USDC-targeted arbitrage: ${error}`, 'error');
+    emitAlert({ type: 'trade-failed', severity: 'critical', key: `${buyPool}-${sellPool}`, message: `Failed to execute ${strategy} arbitrage ${buyPool} → ${sellPool}: ${error}` }, fields);
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: `execution failed: ${error}`, amount: tradeAmount });
   }
 }
 
+// Execute USDC-targeted arbitrage: Start with USDC, end with more USDC
+export async function executeUSDCTargetedArbitrage(
+  buyPool: string,
+  sellPool: string,
+  buyPriceUSDCperUSDT: number,
+  sellPriceUSDCperUSDT: number,
+  tradeAmountUSDC: number
+): Promise<void> {
+  await executeTargetedArbitrage({ startToken: 'USDC', bridgeToken: 'USDT', buyPool, sellPool }, buyPriceUSDCperUSDT, sellPriceUSDCperUSDT, tradeAmountUSDC);
+}
+
 // Execute USDT-targeted arbitrage: Start with USDT, end with more USDT
 export async function executeUSDTTargetedArbitrage(
-  buyChain: string,
-  sellChain: string,
+  buyPool: string,
+  sellPool: string,
   buyPriceUSDTperUSDC: number,
   sellPriceUSDTperUSDC: number,
   tradeAmountUSDT: number
 ): Promise<void> {
-  try {
-    log(`Executing USDT-targeted arbitrage: Sell USDT on ${buyChain} at ${buyPriceUSDTperUSDC} USDT/USDC, buy on ${sellChain} at ${sellPriceUSDTperUSDC} USDT/USDC (Amount: ${tradeAmountUSDT} USDT)`);
+  await executeTargetedArbitrage({ startToken: 'USDT', bridgeToken: 'USDC', buyPool, sellPool }, buyPriceUSDTperUSDC, sellPriceUSDTperUSDC, tradeAmountUSDT);
+}
 
-    // Paper trading logic for USDT-targeted arbitrage
-    const sourceBalance = getPaperBalance(buyChain);
-    const targetBalance = getPaperBalance(sellChain);
+// Legacy function - keeping for backward compatibility but marking as deprecated
+export async function executeArbitrage(
+  sourceChain: string,
+  targetChain: string,
+  tokenAddress: string,
+  sourcePrice: number,
+  targetPrice: number
+): Promise<void> {
+  log(`⚠️  executeArbitrage is deprecated. Use executeUSDCTargetedArbitrage or executeUSDTTargetedArbitrage instead.`, 'warn');
 
-    // Log balances before trade
-    log(`📊 Pre-trade balances:`);
-    log(`  ${buyChain}: ${sourceBalance.usdc.toFixed(2)} USDC, ${sourceBalance.usdt.toFixed(2)} USDT`);
-    log(`  ${sellChain}: ${targetBalance.usdc.toFixed(2)} USDC, ${targetBalance.usdt.toFixed(2)} USDT`);
+  // For backward compatibility, assume USDC-targeted arbitrage on the first registered pool of each chain
+  const sourcePool = getRegisteredPools().find(pool => pool.chain === sourceChain);
+  const targetPool = getRegisteredPools().find(pool => pool.chain === targetChain);
+  if (!sourcePool || !targetPool) {
+    log(`No registered pools for ${sourceChain} → ${targetChain}`, 'error');
+    return;
+  }
 
-    // Check if we have enough USDT to execute the trade
-    if (sourceBalance.usdt < tradeAmountUSDT) {
-      log(`Insufficient USDT on ${buyChain} for USDT-targeted paper trade. Available: ${sourceBalance.usdt}, Required: ${tradeAmountUSDT}`, 'warn');
-      return;
-    }
+  const bridge = getBestBridgeQuote('USDT', sourceChain, targetChain, 1000 / sourcePrice)?.bridge;
+  if (!passesRiskChecks({ strategy: 'USDC-targeted', buyPool: sourcePool.id, sellPool: targetPool.id, sourceChain, targetChain, bridge, token: 'USDC', amount: 1000 })) {
+    return;
+  }
 
-    // USDT-targeted arbitrage calculation
-    // 1. Sell USDT for USDC on buyChain (cheaper price = more USDC per USDT)
-    // 2. Transfer USDC to sellChain (cross-chain bridge)
-    // 3. Buy USDT with USDC on sellChain (more expensive price = less USDC per USDT)
-    // 4. End with USDT only on sellChain
+  await executeUSDCTargetedArbitrage(sourcePool.id, targetPool.id, sourcePrice, targetPrice, 1000);
+}
 
-    const usdcReceived = tradeAmountUSDT * buyPriceUSDTperUSDC; // USDC received from selling USDT
-    const usdtReceived = usdcReceived / sellPriceUSDTperUSDC; // USDT received from buying
+// Decisions made during the current arbitrage check
+let checkDecisions: ArbitrageDecision[] = [];
 
-    // Calculate profits in USDT terms
-    const grossProfitUSDT = usdtReceived - tradeAmountUSDT;
-    const [sourceGasUSD, targetGasUSD] = await Promise.all([
-      getGasCostInUSD(buyChain),
-      getGasCostInUSD(sellChain)
-    ]);
-    const gasCostUSD = sourceGasUSD + targetGasUSD;
-    const netProfitUSD = grossProfitUSDT - gasCostUSD;
+function recordDecision(decision: ArbitrageDecision): void {
+  checkDecisions.push(decision);
+}
 
-    // Only execute and record the trade if it's profitable
-    if (netProfitUSD > CONFIG.PROFIT_THRESHOLD) {
-      // Update paper balances - simulate cross-chain transfer
-      const newSourceBalance = {
-        usdc: sourceBalance.usdc, // No USDC left (transferred to other chain)
-        usdt: sourceBalance.usdt - tradeAmountUSDT, // Spend USDT
-        timestamp: Date.now()
-      };
-
-      const newTargetBalance = {
-        usdc: targetBalance.usdc, // No USDC left (spent buying USDT)
-        usdt: targetBalance.usdt + usdtReceived, // Receive USDT from buying
-        timestamp: Date.now()
-      };
-
-      // Record the paper trade
-      addPaperTrade({
-        sourceChain: buyChain,
-        targetChain: sellChain,
-        sourcePrice: buyPriceUSDTperUSDC,
-        targetPrice: sellPriceUSDTperUSDC,
-        amount: tradeAmountUSDT,
-        profit: grossProfitUSDT,
-        gasCost: gasCostUSD,
-        netProfit: netProfitUSD,
-        status: 'executed'
-      });
+// Alert on a trade that clears the profit threshold, with its net profit as a margin on the notional
+function emitOpportunity(route: string, netProfitUSD: number, notionalUSD: number, fields: LogFields): void {
+  const marginBps = netProfitUSD / notionalUSD * 10000;
+  emitAlert({
+    type: 'opportunity',
+    severity: 'info',
+    key: route,
+    message: `Opportunity ${route}: net $${netProfitUSD.toFixed(4)} on $${notionalUSD.toFixed(2)} (${marginBps.toFixed(1)} bps)`,
+    details: { route, netProfitUSD, notionalUSD, marginBps }
+  }, fields);
+}
 
-      // Update balances
-      updatePaperBalance(buyChain, newSourceBalance.usdc, newSourceBalance.usdt);
-      updatePaperBalance(sellChain, newTargetBalance.usdc, newTargetBalance.usdt);
+// Run a trade past the risk manager, recording a skip with the limit it hit if rejected
+function passesRiskChecks(proposal: TradeProposal): boolean {
+  const risk = checkTradeRisk(proposal, paperTrades, pendingTransfers);
+  if (!risk.approved) {
+    recordDecision({ strategy: proposal.strategy, buyPool: proposal.buyPool, sellPool: proposal.sellPool, action: 'skip', reason: `risk limit ${risk.limit}: ${risk.reason}`, amount: proposal.amount });
+  }
+  return risk.approved;
+}
 
-      // Log post-trade balances
-      log(`📊 Post-trade balances:`);
-      log(`  ${buyChain}: ${newSourceBalance.usdc.toFixed(2)} USDC, ${newSourceBalance.usdt.toFixed(2)} USDT`);
-      log(`  ${sellChain}: ${newTargetBalance.usdc.toFixed(2)} USDC, ${newTargetBalance.usdt.toFixed(2)} USDT`);
+// The token a pool pair trades against the one we're running low on: running low on USDT means buying it with USDC
+function getStartToken(tokens: readonly string[], targetToken: string): string {
+  return tokens.find(token => token !== targetToken)!;
+}
 
-      // Log trade summary
-      const stats = getPaperTradingStats();
-      log(`📊 USDT-Targeted Paper Trade Summary:`);
-      log(`  Start: ${tradeAmountUSDT} USDT`);
-      log(`  End: ${usdtReceived.toFixed(4)} USDT`);
-      log(`  Gross Profit: ${grossProfitUSDT.toFixed(4)} USDT`);
-      log(`  Gas Cost: $${gasCostUSD.toFixed(4)}`);
-      log(`  Net Profit: $${netProfitUSD.toFixed(4)}`);
-      log(`  Total Portfolio Value: $${stats.totalValue.toFixed(2)}`);
-      log(`  Total Profit: $${stats.totalProfit.toFixed(4)}`);
-      log(`  Win Rate: ${stats.winRate.toFixed(1)}%`);
+// Every pool that takes part in a cross-chain pair or a multi-hop cycle
+export function getTradedPools(
+  pairs: Array<[RegistryPool, RegistryPool]> = getCrossChainPoolPairs(),
+  cycles: Cycle[] = CONFIG.MULTI_HOP_ROUTES ? findCycles() : []
+): RegistryPool[] {
+  const cyclePools = new Set(cycles.flatMap(getCyclePools));
+  return getRegisteredPools().filter(pool => cyclePools.has(pool.id) || pairs.some(pair => pair.includes(pool)));
+}
 
-    } else {
-      log(`USDT-targeted paper trade not executed - insufficient profit (Net: $${netProfitUSD.toFixed(4)}, Threshold: $${CONFIG.PROFIT_THRESHOLD})`, 'warn');
-    }
+const CROSS_CHAIN_UNSUPPORTED = 'cross-chain routes are paper-only (live execution has no bridge step)';
 
-  } catch (error) {
-    log(`Failed to execute USDT-targeted arbitrage: ${error}`, 'error');
+// Replace the tracked balances with the wallet's, on every registered chain, when the backend can read them
+async function syncWalletBalances(backend: ExecutionBackend): Promise<void> {
+  if (!backend.readBalances) {
+    return;
   }
-}
-
-// Legacy function - keeping for backward compatibility but marking as deprecated
-export async function executeArbitrage(
-  sourceChain: string,
-  targetChain: string,
-  tokenAddress: string,
-  sourcePrice: number,
-  targetPrice: number
-): Promise<void> {
-  log(`⚠️  executeArbitrage is deprecated. Use executeUSDCTargetedArbitrage or executeUSDTTargetedArbitrage instead.`, 'warn');
 
-  // For backward compatibility, assume USDC-targeted arbitrage
-  await executeUSDCTargetedArbitrage(sourceChain, targetChain, sourcePrice, targetPrice, 1000);
+  for (const chainName of getRegisteredChains()) {
+    try {
+      paperBalances[chainName] = { tokens: await backend.readBalances(chainName), timestamp: now() };
+      appendLedgerEvent({ type: 'balance', chain: chainName, balance: paperBalances[chainName] });
+    } catch (error) {
+      log(`Failed to read wallet balances on ${chainName}, keeping the tracked ones: ${error}`, 'error');
+    }
+  }
 }
 
-// Check for arbitrage opportunities between the pools
-async function checkArbitrageOpportunities(): Promise<void> {
+// Check for arbitrage opportunities across every registered cross-chain pool pair and multi-hop cycle
+// With refreshPools false, pools already kept current by WebSocket events aren't re-read
+export async function checkArbitrageOpportunities(refreshPools: boolean = true): Promise<ArbitrageDecision[]> {
+  checkDecisions = [];
+
   try {
     // Get pool metadata first
     const poolMetadata = await getAllPoolMetadata();
+    const pairs = getCrossChainPoolPairs();
+    const cycles = CONFIG.MULTI_HOP_ROUTES ? findCycles() : [];
+    const tradedPools = getTradedPools(pairs, cycles);
+
+    // Price every traded token so balances in any of them can be valued and compared. Stablecoins are priced
+    // whether or not the depeg breaker is on, or valuation would fall back to $1
+    await refreshTokenPrices([...new Set(tradedPools.flatMap(pool => pool.tokens))]);
+    const unpricedStablecoins = await refreshStablecoinPrices();
+
+    // Determine which token of each traded token pair we're targeting based on current balances
+    const targetTokens = new Map<string, string>();
+    const getTargetToken = (tokens: [string, string]): string => {
+      const key = [...tokens].sort().join('/');
+      if (!targetTokens.has(key)) {
+        targetTokens.set(key, determineTargetToken(tokens));
+      }
+      return targetTokens.get(key)!;
+    };
+
+    // Get pool prices for every pool that takes part in a pair or cycle, targeting the token we're running low on
+    for (const pool of tradedPools) {
+      if (!refreshPools && poolStates[pool.id]) continue;
+      const metadata = poolMetadata[pool.id];
+      await getPoolPrice(clients[metadata.chain], pool.id, getTokenIndex(metadata, getTargetToken(pool.tokens)), poolMetadata);
+    }
 
-    // Determine which token we're targeting based on current balances
-    const targetToken = determineTargetToken(poolMetadata);
+    // Settle second legs whose bridge transfers have arrived, against the fresh pool state
+    await settlePendingTransfers();
 
-    // Determine which index the target token is in each pool
-    const avalancheTargetIndex = poolMetadata['avalanche'].token0.symbol.toLowerCase() === targetToken.toLowerCase() ? 0 : 1;
-    const sonicTargetIndex = poolMetadata['sonic'].token0.symbol.toLowerCase() === targetToken.toLowerCase() ? 0 : 1;
+    // Live mode trades what the wallet actually holds
+    const backend = getExecutionBackend();
+    await syncWalletBalances(backend);
 
-    log(`📍 ${targetToken} is token${avalancheTargetIndex} in avalanche pool, token${sonicTargetIndex} in sonic pool`);
+    // Log current balances before checking arbitrage
+    logBalances();
 
-    // Get pool prices targeting the token we're running low on
-    await getPoolPrice(clients.avalanche, 'avalanche', avalancheTargetIndex, poolMetadata);
-    await getPoolPrice(clients.sonic, 'sonic', sonicTargetIndex, poolMetadata);
+    // Halt new trades while a stablecoin is off its peg or the paired stablecoin pools disagree beyond reason
+    const stablecoinPairs = getCrossChainPoolPairs('USDC', 'USDT');
+    const halted = updateDepegBreaker(stablecoinPairs.map(([poolA, poolB]) => [poolMetadata[poolA.id], poolMetadata[poolB.id]]), unpricedStablecoins);
 
-    const avalanchePrice = lastPrices['avalanche'];
-    const sonicPrice = lastPrices['sonic'];
+    // Routes that bridge need a backend that can bridge (live execution can't yet)
+    const haltReason = halted ? `depeg circuit breaker: ${depegBreaker.reasons.join('; ')}` : null;
+    const crossChainReason = haltReason ?? (backend.crossChain ? null : CROSS_CHAIN_UNSUPPORTED);
 
-    if (!avalanchePrice || !sonicPrice) {
-      return; // Wait for both prices to be available
+    for (const [poolA, poolB] of pairs) {
+      const targetToken = getTargetToken(poolA.tokens);
+      if (crossChainReason) {
+        recordDecision({ strategy: `${getStartToken(poolA.tokens, targetToken)}-targeted`, buyPool: poolA.id, sellPool: poolB.id, action: 'skip', reason: crossChainReason });
+        continue;
+      }
+      await checkPoolPair(poolMetadata[poolA.id], poolMetadata[poolB.id], targetToken);
     }
 
-    // Log current balances before checking arbitrage
-    logBalances();
-
-    // Calculate gas costs in USD
-    const [avalancheGasUSD, sonicGasUSD] = await Promise.all([
-      getGasCostInUSD('avalanche'),
-      getGasCostInUSD('sonic')
-    ]);
-    const totalGasUSD = avalancheGasUSD + sonicGasUSD;
-
-    log(`Gas costs: Avalanche $${avalancheGasUSD.toFixed(4)}, Sonic $${sonicGasUSD.toFixed(4)}, Total $${totalGasUSD.toFixed(4)}`);
-
-    // Price comparison and arbitrage direction - use the appropriate logic based on target token
-    let priceDiff: number;
-    let percentageDiff: number;
-    let buyChain: string;
-    let sellChain: string;
-    let buyPriceUSDCperUSDT: number;
-    let sellPriceUSDCperUSDT: number;
-
-    if (targetToken === 'USDT') {
-      // When targeting USDT, we're doing USDC-targeted arbitrage
-      // Use the correct price direction based on each chain's token index
-      const avalanchePriceUSDCperUSDT = avalancheTargetIndex === 1 ? avalanchePrice.tokens0PerToken1 : avalanchePrice.tokens1PerToken0;
-      const sonicPriceUSDCperUSDT = sonicTargetIndex === 1 ? sonicPrice.tokens0PerToken1 : sonicPrice.tokens1PerToken0;
-
-      priceDiff = Math.abs(avalanchePriceUSDCperUSDT - sonicPriceUSDCperUSDT);
-      percentageDiff = (priceDiff / Math.min(avalanchePriceUSDCperUSDT, sonicPriceUSDCperUSDT)) * 100;
-      log(`Price comparison: Avalanche USDT=${avalanchePriceUSDCperUSDT.toFixed(6)} USDC/USDT, Sonic USDT=${sonicPriceUSDCperUSDT.toFixed(6)} USDC/USDT, Diff=${percentageDiff.toFixed(4)}%`);
-
-      // Determine arbitrage direction for USDC-targeted arbitrage
-      buyChain = avalanchePriceUSDCperUSDT < sonicPriceUSDCperUSDT ? 'avalanche' : 'sonic';
-      sellChain = avalanchePriceUSDCperUSDT < sonicPriceUSDCperUSDT ? 'sonic' : 'avalanche';
-      buyPriceUSDCperUSDT = Math.min(avalanchePriceUSDCperUSDT, sonicPriceUSDCperUSDT);
-      sellPriceUSDCperUSDT = Math.max(avalanchePriceUSDCperUSDT, sonicPriceUSDCperUSDT);
-
-      log(`🎯 Checking USDC-targeted arbitrage (we're running low on USDT, so we'll use USDC to buy USDT)`);
-      await checkUSDCTargetedArbitrage(buyChain, sellChain, buyPriceUSDCperUSDT, sellPriceUSDCperUSDT, totalGasUSD);
-    } else {
-      // When targeting USDC, we're doing USDT-targeted arbitrage
-      // Use the correct price direction based on each chain's token index
-      const avalanchePriceUSDTperUSDC = avalancheTargetIndex === 0 ? avalanchePrice.tokens0PerToken1 : avalanchePrice.tokens1PerToken0;
-      const sonicPriceUSDTperUSDC = sonicTargetIndex === 0 ? sonicPrice.tokens0PerToken1 : sonicPrice.tokens1PerToken0;
-
-      priceDiff = Math.abs(avalanchePriceUSDTperUSDC - sonicPriceUSDTperUSDC);
-      percentageDiff = (priceDiff / Math.min(avalanchePriceUSDTperUSDC, sonicPriceUSDTperUSDC)) * 100;
-      log(`Price comparison: Avalanche USDC=${avalanchePriceUSDTperUSDC.toFixed(6)} USDT/USDC, Sonic USDC=${sonicPriceUSDTperUSDC.toFixed(6)} USDT/USDC, Diff=${percentageDiff.toFixed(4)}%`);
-
-      // Determine arbitrage direction for USDT-targeted arbitrage
-      buyChain = avalanchePriceUSDTperUSDC < sonicPriceUSDTperUSDC ? 'avalanche' : 'sonic';
-      sellChain = avalanchePriceUSDTperUSDC < sonicPriceUSDTperUSDC ? 'sonic' : 'avalanche';
-      const buyPriceUSDTperUSDC = Math.min(avalanchePriceUSDTperUSDC, sonicPriceUSDTperUSDC);
-      const sellPriceUSDTperUSDC = Math.max(avalanchePriceUSDTperUSDC, sonicPriceUSDTperUSDC);
-
-      log(`🎯 Checking USDT-targeted arbitrage (we're running low on USDC, so we'll use USDT to buy USDC)`);
-      await checkUSDTTargetedArbitrage(buyChain, sellChain, buyPriceUSDTperUSDC, sellPriceUSDTperUSDC, totalGasUSD);
+    // Multi-hop cycles through the same pools, within and across chains
+    const checkedCycles: Cycle[] = [];
+    for (const cycle of cycles) {
+      const reason = cycle.bridgeToken ? crossChainReason : haltReason;
+      if (!reason) {
+        checkedCycles.push(cycle);
+        continue;
+      }
+      const pools = getCyclePools(cycle);
+      recordDecision({ strategy: `${cycle.startToken}-cycle`, buyPool: pools[0], sellPool: pools[pools.length - 1], cycle: cycle.id, action: 'skip', reason });
     }
+    await checkCycles(checkedCycles);
+
+    // Move inventory back towards its target allocation once nothing is in flight
+    await rebalanceInventory();
 
     // Log updated balances after arbitrage checks
     logBalances();
@@ -438,29 +843,102 @@ async function checkArbitrageOpportunities(): Promise<void> {
   } catch (error) {
     log(`Failed to check arbitrage opportunities: ${error}`, 'error');
   }
+
+  return checkDecisions;
+}
+
+// Compare one pool pair and check the arbitrage direction that buys the target token
+async function checkPoolPair(poolA: PoolMetadata, poolB: PoolMetadata, targetToken: string): Promise<void> {
+  const priceA = lastPrices[poolA.id];
+  const priceB = lastPrices[poolB.id];
+
+  if (!priceA || !priceB) {
+    return; // Wait for both prices to be available
+  }
+
+  const startToken = getStartToken([poolA.token0.canonical, poolA.token1.canonical], targetToken);
+  const strategy = `${startToken}-targeted`;
+  const logPair = logWith({ pool: [poolA.id, poolB.id] });
+
+  // Determine which index the target token is in each pool
+  const targetIndexA = getTokenIndex(poolA, targetToken);
+  const targetIndexB = getTokenIndex(poolB, targetToken);
+
+  logPair(`📍 ${targetToken} is token${targetIndexA} in ${poolA.id}, token${targetIndexB} in ${poolB.id}`);
+
+  // Never trade on a guessed price: skip the pair while either chain's native USD price, or the USD price
+  // of a non-stable token it trades, is unavailable
+  for (const chain of new Set([poolA.chain, poolB.chain])) {
+    try {
+      await getUSDPrice(chain, CHAIN_CONFIGS[chain].nativeCurrency.symbol);
+      for (const token of [startToken, targetToken].filter(token => !isStablecoin(token))) {
+        const feedChain = findPriceFeedChain(chain, token);
+        if (!feedChain) {
+          throw new Error(`No USD price feed for ${token}`);
+        }
+        await getUSDPrice(feedChain, token);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logPair(`Skipping ${poolA.id} ↔ ${poolB.id}: ${reason}`, 'warn');
+      recordDecision({ strategy, buyPool: poolA.id, sellPool: poolB.id, action: 'skip', reason });
+      return;
+    }
+  }
+
+  // Price of the target token in start tokens, using the correct direction for each pool's token index
+  const pricePerTargetA = targetIndexA === 1 ? priceA.tokens0PerToken1 : priceA.tokens1PerToken0;
+  const pricePerTargetB = targetIndexB === 1 ? priceB.tokens0PerToken1 : priceB.tokens1PerToken0;
+
+  const priceDiff = Math.abs(pricePerTargetA - pricePerTargetB);
+  const percentageDiff = (priceDiff / Math.min(pricePerTargetA, pricePerTargetB)) * 100;
+  logPair(`Price comparison: ${poolA.id} ${targetToken}=${pricePerTargetA.toFixed(6)} ${startToken}/${targetToken}, ${poolB.id} ${targetToken}=${pricePerTargetB.toFixed(6)} ${startToken}/${targetToken}, Diff=${percentageDiff.toFixed(4)}%`);
+
+  // Buy the target token where it's cheaper, sell it back where it's more expensive
+  const route: ArbitrageRoute = {
+    startToken,
+    bridgeToken: targetToken,
+    buyPool: pricePerTargetA < pricePerTargetB ? poolA.id : poolB.id,
+    sellPool: pricePerTargetA < pricePerTargetB ? poolB.id : poolA.id
+  };
+
+  logPair(`🎯 Checking ${strategy} arbitrage (we're running low on ${targetToken}, so we'll use ${startToken} to buy ${targetToken})`);
+  await checkTargetedArbitrage(route, Math.min(pricePerTargetA, pricePerTargetB), Math.max(pricePerTargetA, pricePerTargetB));
+}
+
+// Log the simulated fills for the legs of an arbitrage
+function logSwapQuotes(...quotes: SwapQuote[]): void {
+  for (const quote of quotes) {
+    log(`  ${quote.pool}: ${quote.amountIn.toFixed(6)} ${quote.tokenIn} → ${quote.amountOut.toFixed(6)} ${quote.tokenOut} (spot ${quote.spotPrice.toFixed(6)}, fill ${quote.executionPrice.toFixed(6)}, impact ${quote.priceImpact.toFixed(4)}%, fee ${quote.feeAmount.toFixed(6)} ${quote.tokenIn}, ${quote.ticksCrossed} ticks crossed)`, 'info', { chain: quote.chain, pool: quote.pool });
+  }
 }
 
 // Log current balances on all chains
 function logBalances(): void {
   log('💰 Current Paper Trading Balances:');
 
-  const avalancheBalance = getPaperBalance('avalanche');
-  const sonicBalance = getPaperBalance('sonic');
-
-  // Calculate total portfolio value
-  const avalancheValue = avalancheBalance.usdc + avalancheBalance.usdt;
-  const sonicValue = sonicBalance.usdc + sonicBalance.usdt;
-  const totalValue = avalancheValue + sonicValue;
+  let totalValue = 0;
 
-  log(`  🏔️  Avalanche:`);
-  log(`    USDC: ${avalancheBalance.usdc.toFixed(2)} ($${avalancheBalance.usdc.toFixed(2)})`);
-  log(`    USDT: ${avalancheBalance.usdt.toFixed(2)} ($${avalancheBalance.usdt.toFixed(2)})`);
-  log(`    Total: $${avalancheValue.toFixed(2)}`);
+  for (const chainName of getPaperChains()) {
+    const balance = getPaperBalance(chainName);
+    const inTransit = getInTransitBalance(chainName);
+    let chainValue = 0;
 
-  log(`  🎵 Sonic:`);
-  log(`    USDC: ${sonicBalance.usdc.toFixed(2)} ($${sonicBalance.usdc.toFixed(2)})`);
-  log(`    USDT: ${sonicBalance.usdt.toFixed(2)} ($${sonicBalance.usdt.toFixed(2)})`);
-  log(`    Total: $${sonicValue.toFixed(2)}`);
+    log(`  ⛓️  ${CHAIN_CONFIGS[chainName]?.name ?? chainName}:`);
+    for (const [token, amount] of Object.entries(balance.tokens)) {
+      const price = getTokenPriceUSD(chainName, token);
+      chainValue += getTokenValueUSD(chainName, token, amount);
+      log(`    ${token}: ${amount.toFixed(isStablecoin(token) ? 2 : 6)} (${price === undefined ? 'unpriced' : `$${(amount * price).toFixed(2)} at $${price.toFixed(4)}`})`);
+    }
+    for (const [token, amount] of Object.entries(inTransit)) {
+      chainValue += getTokenValueUSD(chainName, token, amount);
+    }
+    if (Object.values(inTransit).some(amount => amount > 0)) {
+      log(`    In transit: ${formatTokenAmounts(inTransit)}`);
+    }
+    totalValue += chainValue;
+    log(`    Total: $${chainValue.toFixed(2)}`);
+  }
 
   log(`  📊 Portfolio Total: $${totalValue.toFixed(2)}`);
 
@@ -469,162 +947,394 @@ function logBalances(): void {
   log(`  📈 Trading Stats:`);
   log(`    Total Trades: ${stats.totalTrades}`);
   log(`    Profitable Trades: ${stats.profitableTrades}`);
+  log(`    Pending Trades: ${stats.pendingTrades}`);
   log(`    Total Profit: $${stats.totalProfit.toFixed(4)}`);
   log(`    Win Rate: ${stats.winRate.toFixed(1)}%`);
+  log(`    Rebalancing: ${stats.rebalances} moves, cost $${stats.rebalanceCost.toFixed(4)}`);
 
   log('─'.repeat(50));
 }
 
-// Determine which token we're running low on across all chains
-function determineTargetToken(poolMetadata: Record<string, PoolMetadata>): 'USDC' | 'USDT' {
-  const avalancheBalance = getPaperBalance('avalanche');
-  const sonicBalance = getPaperBalance('sonic');
-
-  // Calculate combined balances across all chains
-  const totalUSDC = avalancheBalance.usdc + sonicBalance.usdc;
-  const totalUSDT = avalancheBalance.usdt + sonicBalance.usdt;
+// Determine which of a pair's tokens we're running low on across all chains, by USD value
+function determineTargetToken(tokens: [string, string]): string {
+  const totals = tokens.map(token =>
+    getPaperChains().reduce((sum, chain) => sum + getTokenValueUSD(chain, token, getTokenBalance(chain, token)), 0)
+  );
 
-  log(`📊 Combined balances: USDC=${totalUSDC.toFixed(2)}, USDT=${totalUSDT.toFixed(2)}`);
+  log(`📊 Combined balances: ${tokens.map((token, i) => `${token}=$${totals[i].toFixed(2)}`).join(', ')}`);
 
   // Determine which token we have less of (the one we're running out of)
-  if (totalUSDC <= totalUSDT) {
-    log(`🎯 Target token determined: USDC (${totalUSDC.toFixed(2)} vs ${totalUSDT.toFixed(2)} USDT)`);
-    return 'USDC';
-  } else {
-    log(`🎯 Target token determined: USDT (${totalUSDT.toFixed(2)} vs ${totalUSDC.toFixed(2)} USDC)`);
-    return 'USDT';
-  }
+  const [target, other] = totals[0] <= totals[1] ? [0, 1] : [1, 0];
+  log(`🎯 Target token determined: ${tokens[target]} ($${totals[target].toFixed(2)} vs $${totals[other].toFixed(2)} ${tokens[other]})`);
+  return tokens[target];
 }
 
-// Calculate minimum trade amount needed to achieve required profit for USDT-targeted arbitrage
+// Calculate minimum trade amount (in the start token) needed to achieve required profit
 function calculateMinimumTradeAmount(
   buyPrice: number,
   sellPrice: number,
-  totalGasUSD: number
+  totalGasUSD: number,
+  bridgeFeeUSD: number = 0,
+  startTokenUSD: number = 1
 ): number {
   const ATOMIC_UNIT = 0.000001; // 1 atomic unit (6 decimal places)
-  const requiredNetProfit = totalGasUSD + CONFIG.PROFIT_THRESHOLD + ATOMIC_UNIT;
+  // Gross profit the trade must make to clear its costs and still net the threshold
+  const requiredGrossProfitUSD = totalGasUSD + bridgeFeeUSD + CONFIG.PROFIT_THRESHOLD + ATOMIC_UNIT;
 
   // Start with A, end with more A
-  // We buy A for B on buyChain (cheaper price), then sell B for A on sellChain (more expensive price)
-  // Formula: requiredNetProfit = (tradeAmount * buyPrice / sellPrice) - tradeAmount - totalGasUSD
-  // Solving for tradeAmount: tradeAmount = (requiredNetProfit + totalGasUSD) / ((buyPrice / sellPrice) - 1)
+  // We buy B with A on buyChain (cheaper price), bridge B, then sell B for A on sellChain (more expensive price)
+  // Formula: netProfit = tradeAmount * (sellPrice / buyPrice - 1) * startTokenUSD - totalGasUSD - bridgeFeeUSD
+  // Solving netProfit > PROFIT_THRESHOLD for tradeAmount: tradeAmount = requiredGrossProfitUSD / ((sellPrice / buyPrice - 1) * startTokenUSD)
   const priceRatio = sellPrice / buyPrice;
   if (priceRatio <= 1) {
     return 0; // No profit possible
   }
-  const minTradeAmount = (requiredNetProfit + totalGasUSD) / (priceRatio - 1);
+  const minTradeAmount = requiredGrossProfitUSD / ((priceRatio - 1) * startTokenUSD);
   return Math.ceil(minTradeAmount * 1000000) / 1000000; // Round up to 6 decimal places
 }
 
-// Check USDC-targeted arbitrage: Start with USDC, end with more USDC
-async function checkUSDCTargetedArbitrage(
-  buyChain: string,
-  sellChain: string,
-  buyPriceUSDCperUSDT: number,
-  sellPriceUSDCperUSDT: number,
-  totalGasUSD: number
-): Promise<void> {
-  const sourceBalance = getPaperBalance(buyChain);
+// Smallest trade worth sizing, in USD
+const MIN_TRADE_USD = 100;
+
+// Check one direction of a pool pair: size the round trip against both pools and execute it if it clears every cost
+async function checkTargetedArbitrage(route: ArbitrageRoute, buyPrice: number, sellPrice: number): Promise<void> {
+  const { startToken, bridgeToken, buyPool, sellPool } = route;
+  const strategy = getRouteStrategy(route);
+  const logRoute = logWith({ pool: [buyPool, sellPool] });
+  const buyChain = getRegisteredPool(buyPool).chain;
+  const sellChain = getRegisteredPool(sellPool).chain;
+  const available = getTokenBalance(buyChain, startToken);
+
+  const startTokenUSD = getTokenPriceUSD(buyChain, startToken);
+  if (!startTokenUSD) {
+    logRoute(`${strategy} arbitrage not possible: no USD price for ${startToken} on ${buyChain}`, 'warn');
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: `no USD price for ${startToken} on ${buyChain}` });
+    return;
+  }
+  const absoluteMinTradeAmount = MIN_TRADE_USD / startTokenUSD; // Absolute minimum trade size
+
+  // Quote the bridge at the smallest trade size: a lower bound on the fee for the break-even check
+  const referenceBridgeQuote = getBestBridgeQuote(bridgeToken, buyChain, sellChain, absoluteMinTradeAmount / buyPrice);
+  if (!referenceBridgeQuote) {
+    logRoute(`${strategy} arbitrage not possible: no bridge route for ${bridgeToken} from ${buyChain} to ${sellChain}`, 'warn');
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: `no bridge route for ${bridgeToken} from ${buyChain} to ${sellChain}` });
+    return;
+  }
+
+  // Estimate the route's gas (approvals, swaps, bridge send) on the legs at the smallest trade size
+  const quoteLegs = (amount: number): [SwapQuote, SwapQuote] => {
+    const firstLeg = quoteSwap(buyPool, startToken, amount);
+    return [firstLeg, quoteSwap(sellPool, bridgeToken, firstLeg.amountOut)];
+  };
+  let referenceLegs: [SwapQuote, SwapQuote];
+  try {
+    referenceLegs = quoteLegs(absoluteMinTradeAmount);
+  } catch (error) {
+    logRoute(`${strategy} arbitrage not possible: the pools can't fill ${absoluteMinTradeAmount} ${startToken}: ${error}`, 'warn');
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: 'no size can be filled by the pools and bridged' });
+    return;
+  }
+  const totalGasUSD = await getRouteGasCostUSD(await estimateRouteGas(...referenceLegs, referenceBridgeQuote));
+  logRoute(`Route gas cost: $${totalGasUSD.toFixed(4)}`);
 
   // Calculate minimum trade amount needed to achieve required profit
-  const minTradeAmountUSDC = calculateMinimumTradeAmount(buyPriceUSDCperUSDT, sellPriceUSDCperUSDT, totalGasUSD);
+  const minTradeAmount = calculateMinimumTradeAmount(buyPrice, sellPrice, totalGasUSD, referenceBridgeQuote.feeUSD, startTokenUSD);
 
-  if (minTradeAmountUSDC === 0) {
-    log(`USDC-targeted arbitrage not profitable: price ratio ${(sellPriceUSDCperUSDT / buyPriceUSDCperUSDT).toFixed(6)} <= 1`, 'warn');
+  if (minTradeAmount === 0) {
+    logRoute(`${strategy} arbitrage not profitable: price ratio ${(sellPrice / buyPrice).toFixed(6)} <= 1`, 'warn');
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: 'no price advantage' });
     return;
   }
 
-  // Dynamic trade sizing: use up to 50% of available USDC balance
-  const maxTradeAmountUSDC = Math.floor(sourceBalance.usdc * 0.5);
-  const absoluteMinTradeAmountUSDC = 100; // Absolute minimum trade size
+  // Dynamic trade sizing: use up to MAX_TRADE_FRACTION of the available start token balance, in whole dollars
+  const maxTradeAmount = Math.floor(available * CONFIG.MAX_TRADE_FRACTION * startTokenUSD) / startTokenUSD;
+  const sizeFloor = Math.max(minTradeAmount, absoluteMinTradeAmount);
 
-  if (maxTradeAmountUSDC < Math.max(minTradeAmountUSDC, absoluteMinTradeAmountUSDC)) {
-    log(`Insufficient USDC on ${buyChain} for USDC-targeted arbitrage. Available: ${sourceBalance.usdc}, Min required: ${Math.max(minTradeAmountUSDC, absoluteMinTradeAmountUSDC).toFixed(6)}`, 'warn');
+  if (maxTradeAmount < sizeFloor) {
+    logRoute(`Insufficient ${startToken} on ${buyChain} for ${strategy} arbitrage. Available: ${available}, Min required: ${sizeFloor.toFixed(6)}`, 'warn');
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: `insufficient ${startToken} on ${buyChain}` });
     return;
   }
 
-  // Use the minimum trade amount that achieves required profit, but not more than 50% of balance
-  const tradeAmountUSDC = Math.min(maxTradeAmountUSDC, Math.max(minTradeAmountUSDC, absoluteMinTradeAmountUSDC));
+  // Solve for the size that maximizes net profit against both pools' liquidity, up to the max fraction of balance
+  const bridgeUSD = ([firstLeg]: SwapQuote[]) => getBestBridgeQuote(bridgeToken, buyChain, sellChain, firstLeg.amountOut)?.feeUSD ?? null;
+  const solution = solveOptimalTradeSize(quoteLegs, { gasUSD: totalGasUSD, startTokenUSD, bridgeUSD }, sizeFloor, maxTradeAmount);
 
-  log(`USDC trade sizing: Available ${sourceBalance.usdc} USDC, Min profitable: ${minTradeAmountUSDC.toFixed(6)} USDC, Max 50%: ${maxTradeAmountUSDC} USDC, Using ${tradeAmountUSDC.toFixed(6)} USDC`);
+  if (!solution) {
+    logRoute(`${strategy} arbitrage: no size between ${sizeFloor.toFixed(6)} and ${maxTradeAmount} ${startToken} can be filled by the pools and bridged`, 'warn');
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: 'no size can be filled by the pools and bridged' });
+    return;
+  }
 
-  // USDC-targeted arbitrage logic:
-  // 1. Buy USDT with USDC on buyChain (cheaper price)
-  // 2. Sell USDT for USDC on sellChain (more expensive price)
-  // 3. End with more USDC than we started with
+  const tradeAmount = solution.amount;
 
-  const usdtReceived = tradeAmountUSDC / buyPriceUSDCperUSDT; // USDT received from buying
-  const usdcReceived = usdtReceived * sellPriceUSDCperUSDT; // USDC received from selling
+  logRoute(`${startToken} trade sizing: Available ${available} ${startToken}, Min profitable at spot: ${minTradeAmount.toFixed(6)} ${startToken}, Max ${CONFIG.MAX_TRADE_FRACTION * 100}%: ${maxTradeAmount} ${startToken}, Using ${tradeAmount.toFixed(6)} ${startToken}`);
+  logTradeSizeSolution(`${startToken} trade`, solution, startToken);
 
-  // Calculate profit in USDC terms
-  const grossProfitUSDC = usdcReceived - tradeAmountUSDC;
-  const netProfitUSD = grossProfitUSDC - totalGasUSD; // Convert to USD for comparison
+  const [buyQuote, sellQuote] = quoteLegs(tradeAmount);
+  logSwapQuotes(buyQuote, sellQuote);
 
-  log(`USDC-targeted arbitrage: Start ${tradeAmountUSDC.toFixed(6)} USDC → End ${usdcReceived.toFixed(6)} USDC = ${grossProfitUSDC.toFixed(6)} USDC profit`);
-  log(`Net profit after gas: $${netProfitUSD.toFixed(6)}, Threshold: $${CONFIG.PROFIT_THRESHOLD} USD`);
+  const netProfitUSD = solution.netProfit;
+
+  logRoute(`${strategy} arbitrage: Start ${tradeAmount.toFixed(6)} ${startToken} → End ${sellQuote.amountOut.toFixed(6)} ${startToken} = ${solution.grossProfit.toFixed(6)} ${startToken} profit`);
+  logRoute(`Net profit after gas and bridge ($${solution.bridgeFee.toFixed(6)}): $${netProfitUSD.toFixed(6)}, Threshold: $${CONFIG.PROFIT_THRESHOLD} USD`);
 
   if (netProfitUSD > CONFIG.PROFIT_THRESHOLD) {
-    log(`🚨 ARBITRAGE OPPORTUNITY FOUND! ${netProfitUSD.toFixed(6)} USD profit`, 'info');
-    await executeUSDCTargetedArbitrage(buyChain, sellChain, buyPriceUSDCperUSDT, sellPriceUSDCperUSDT, tradeAmountUSDC);
+    logRoute(`🚨 ARBITRAGE OPPORTUNITY FOUND! ${netProfitUSD.toFixed(6)} USD profit`, 'info');
+    emitOpportunity(`${buyPool} → ${sellPool}`, netProfitUSD, tradeAmount * startTokenUSD, { pool: [buyPool, sellPool] });
+    const bridge = getBestBridgeQuote(bridgeToken, buyChain, sellChain, buyQuote.amountOut)?.bridge;
+    if (!passesRiskChecks({ strategy, buyPool, sellPool, sourceChain: buyChain, targetChain: sellChain, bridge, token: startToken, amount: tradeAmount })) {
+      return;
+    }
+    await executeTargetedArbitrage(route, buyPrice, sellPrice, tradeAmount);
   } else {
-    log(`USDC-targeted arbitrage not profitable after gas costs (Net: $${netProfitUSD.toFixed(6)}, Threshold: $${CONFIG.PROFIT_THRESHOLD})`, 'warn');
+    logRoute(`${strategy} arbitrage not profitable after gas and bridge costs (Net: $${netProfitUSD.toFixed(6)}, Threshold: $${CONFIG.PROFIT_THRESHOLD})`, 'warn');
+    recordDecision({ strategy, buyPool, sellPool, action: 'skip', reason: 'below profit threshold', amount: tradeAmount, netProfit: netProfitUSD });
   }
 }
 
-// Check USDT-targeted arbitrage: Start with USDT, end with more USDT
-async function checkUSDTTargetedArbitrage(
-  buyChain: string,
-  sellChain: string,
-  buyPriceUSDTperUSDC: number,
-  sellPriceUSDTperUSDC: number,
-  totalGasUSD: number
-): Promise<void> {
-  const sourceBalance = getPaperBalance(buyChain);
+// Best size found for a cycle during the current check, for the opportunities report
+interface CycleOpportunity {
+  cycle: Cycle;
+  amount: number;
+  netProfit: number;
+}
 
-  // Calculate minimum trade amount needed to achieve required profit
-  const minTradeAmountUSDT = calculateMinimumTradeAmount(buyPriceUSDTperUSDC, sellPriceUSDTperUSDC, totalGasUSD);
+// Check every multi-hop cycle and report the best size of each, most profitable first
+async function checkCycles(cycles: Cycle[]): Promise<void> {
+  const opportunities: CycleOpportunity[] = [];
 
-  if (minTradeAmountUSDT === 0) {
-    log(`USDT-targeted arbitrage not profitable: price ratio ${(buyPriceUSDTperUSDC / sellPriceUSDTperUSDC).toFixed(6)} <= 1`, 'warn');
-    return;
+  for (const cycle of cycles) {
+    const opportunity = await checkCycle(cycle);
+    if (opportunity) {
+      opportunities.push(opportunity);
+    }
   }
 
-  // Dynamic trade sizing: use up to 50% of available USDT balance
-  const maxTradeAmountUSDT = Math.floor(sourceBalance.usdt * 0.5);
-  const absoluteMinTradeAmountUSDT = 100; // Absolute minimum trade size
+  if (opportunities.length > 0) {
+    log(`🧭 Multi-hop cycle opportunities (${opportunities.length} of ${cycles.length} cycles quotable):`);
+    for (const { cycle, amount, netProfit } of opportunities.sort((a, b) => b.netProfit - a.netProfit)) {
+      log(`  ${cycle.id}: ${amount.toFixed(6)} ${cycle.startToken} → net $${netProfit.toFixed(6)}`, 'info', { cycleId: cycle.id });
+    }
+  }
+}
 
-  if (maxTradeAmountUSDT < Math.max(minTradeAmountUSDT, absoluteMinTradeAmountUSDT)) {
-    log(`Insufficient USDT on ${buyChain} for USDT-targeted arbitrage. Available: ${sourceBalance.usdt}, Min required: ${Math.max(minTradeAmountUSDT, absoluteMinTradeAmountUSDT).toFixed(6)}`, 'warn');
-    return;
+// Size one cycle against every pool it swaps through and execute it if it clears every cost
+async function checkCycle(cycle: Cycle): Promise<CycleOpportunity | null> {
+  const { startToken, sourceChain } = cycle;
+  const strategy = `${startToken}-cycle`;
+  const logCycle = logWith({ cycleId: cycle.id });
+  const pools = getCyclePools(cycle);
+  const skip = (reason: string, amount?: number, netProfit?: number) =>
+    recordDecision({ strategy, buyPool: pools[0], sellPool: pools[pools.length - 1], cycle: cycle.id, action: 'skip', reason, amount, netProfit });
+
+  if (pools.some(pool => !poolStates[pool])) {
+    skip('pool state not loaded');
+    return null;
   }
 
-  // Use the minimum trade amount that achieves required profit, but not more than 50% of balance
-  const tradeAmountUSDT = Math.min(maxTradeAmountUSDT, Math.max(minTradeAmountUSDT, absoluteMinTradeAmountUSDT));
+  const startTokenUSD = getTokenPriceUSD(sourceChain, startToken);
+  if (!startTokenUSD) {
+    skip(`no USD price for ${startToken} on ${sourceChain}`);
+    return null;
+  }
 
-  log(`USDT trade sizing: Available ${sourceBalance.usdt} USDT, Min profitable: ${minTradeAmountUSDT.toFixed(6)} USDT, Max 50%: ${maxTradeAmountUSDT} USDT, Using ${tradeAmountUSDT.toFixed(6)} USDT`);
+  // Gas of the concrete route at the smallest trade size
+  const absoluteMinTradeAmount = MIN_TRADE_USD / startTokenUSD;
+  let totalGasUSD: number;
+  try {
+    const reference = quoteCycle(cycle, absoluteMinTradeAmount);
+    totalGasUSD = await getRouteGasCostUSD(await estimatePathGas(reference.legs, reference.bridge));
+  } catch (error) {
+    skip(`no size can be filled by the pools and bridged: ${error}`);
+    return null;
+  }
 
-  // USDT-targeted arbitrage logic:
-  // 1. Sell USDT for USDC on buyChain (cheaper price = more USDC per USDT)
-  // 2. Transfer USDC to sellChain (cross-chain bridge)
-  // 3. Buy USDT with USDC on sellChain (more expensive price = less USDC per USDT)
-  // 4. End with USDT only on sellChain
+  const available = getTokenBalance(sourceChain, startToken);
+  const maxTradeAmount = Math.floor(available * CONFIG.MAX_TRADE_FRACTION * startTokenUSD) / startTokenUSD;
+  const solution = solveOptimalTradeSize(
+    amount => quoteCycle(cycle, amount).legs,
+    { gasUSD: totalGasUSD, startTokenUSD, bridgeUSD: legs => getCycleBridgeFee(cycle, legs) },
+    absoluteMinTradeAmount,
+    maxTradeAmount
+  );
+
+  if (!solution) {
+    skip(maxTradeAmount < absoluteMinTradeAmount ? `insufficient ${startToken} on ${sourceChain}` : 'no size can be filled by the pools and bridged');
+    return null;
+  }
 
-  const usdcReceived = tradeAmountUSDT * buyPriceUSDTperUSDC; // USDC received from selling USDT
-  const usdtReceived = usdcReceived / sellPriceUSDTperUSDC; // USDT received from buying
+  if (solution.netProfit <= CONFIG.PROFIT_THRESHOLD) {
+    skip('below profit threshold', solution.amount, solution.netProfit);
+    return { cycle, amount: solution.amount, netProfit: solution.netProfit };
+  }
 
-  // Calculate profits in USDT terms
-  const grossProfitUSDT = usdtReceived - tradeAmountUSDT;
-  const netProfitUSD = grossProfitUSDT - totalGasUSD;
+  logCycle(`🚨 CYCLE OPPORTUNITY FOUND! ${cycle.id}: ${solution.netProfit.toFixed(6)} USD profit`, 'info');
+  emitOpportunity(cycle.id, solution.netProfit, solution.amount * startTokenUSD, { cycleId: cycle.id });
+  logTradeSizeSolution(cycle.id, solution, startToken);
 
-  log(`USDT-targeted arbitrage: Start ${tradeAmountUSDT.toFixed(6)} USDT → End ${usdtReceived.toFixed(6)} USDT = ${grossProfitUSDT.toFixed(6)} USDT profit`);
-  log(`Net profit after gas: $${netProfitUSD.toFixed(6)}, Threshold: $${CONFIG.PROFIT_THRESHOLD} USD`);
+  const bridge = cycle.bridgeToken
+    ? getBestBridgeQuote(cycle.bridgeToken, sourceChain, cycle.targetChain, quoteCycle(cycle, solution.amount).bridgedAmount)?.bridge
+    : undefined;
+  if (passesRiskChecks({ strategy, buyPool: pools[0], sellPool: pools[pools.length - 1], sourceChain, targetChain: cycle.targetChain, bridge, token: startToken, amount: solution.amount })) {
+    await executeCycle(cycle, solution.amount);
+  }
 
-  if (netProfitUSD > CONFIG.PROFIT_THRESHOLD) {
-    log(`🚨 ARBITRAGE OPPORTUNITY FOUND! ${netProfitUSD.toFixed(6)} USD profit`, 'info');
-    await executeUSDTTargetedArbitrage(buyChain, sellChain, buyPriceUSDTperUSDC, sellPriceUSDTperUSDC, tradeAmountUSDT);
-  } else {
-    log(`USDT-targeted arbitrage not profitable after gas costs (Net: $${netProfitUSD.toFixed(6)}, Threshold: $${CONFIG.PROFIT_THRESHOLD})`, 'warn');
+  return { cycle, amount: solution.amount, netProfit: solution.netProfit };
+}
+
+// Execute a cycle: the source chain swaps fill now. A same-chain cycle is done; a cross-chain one stays pending
+// until the bridged tokens arrive and the target chain swaps settle
+async function executeCycle(cycle: Cycle, tradeAmount: number): Promise<void> {
+  const { startToken, sourceChain, targetChain } = cycle;
+  const strategy = `${startToken}-cycle`;
+  const fields: LogFields = { cycleId: cycle.id };
+  const logCycle = logWith(fields);
+  const pools = getCyclePools(cycle);
+  const decision = { strategy, buyPool: pools[0], sellPool: pools[pools.length - 1], cycle: cycle.id, amount: tradeAmount };
+
+  try {
+    logCycle(`Executing cycle ${cycle.id} (Amount: ${tradeAmount} ${startToken})`);
+
+    const available = getTokenBalance(sourceChain, startToken);
+    if (available < tradeAmount) {
+      logCycle(`Insufficient ${startToken} on ${sourceChain} for cycle paper trade. Available: ${available}, Required: ${tradeAmount}`, 'warn');
+      recordDecision({ ...decision, action: 'skip', reason: `insufficient ${startToken} on ${sourceChain}` });
+      return;
+    }
+
+    const quote = quoteCycle(cycle, tradeAmount);
+    logSwapQuotes(...quote.legs);
+
+    const grossProfit = quote.amountOut - tradeAmount;
+    const gasCostUSD = await getRouteGasCostUSD(await estimatePathGas(quote.legs, quote.bridge));
+    const bridgeCostUSD = quote.bridge?.feeUSD ?? 0;
+    const netProfitUSD = getTokenValueUSD(sourceChain, startToken, grossProfit) - gasCostUSD - bridgeCostUSD;
+
+    if (netProfitUSD <= CONFIG.PROFIT_THRESHOLD) {
+      logCycle(`Cycle paper trade not executed - insufficient profit (Net: $${netProfitUSD.toFixed(4)}, Threshold: $${CONFIG.PROFIT_THRESHOLD})`, 'warn');
+      recordDecision({ ...decision, action: 'skip', reason: 'below profit threshold', netProfit: netProfitUSD });
+      return;
+    }
+
+    const backend = getExecutionBackend();
+    const gate = await simulateBeforeExecution(backend, quote.legs);
+    if (gate.simulation && !gate.simulation.passed) {
+      logCycle(`Cycle ${cycle.id} rejected by pre-trade simulation: ${gate.simulation.reason}`, 'warn');
+      recordDecision({ ...decision, action: 'skip', reason: gate.simulation.reason!, netProfit: netProfitUSD, simulation: gate.simulation });
+      return;
+    }
+
+    // Spend the start token, then fill the source chain swaps
+    adjustPaperBalance(sourceChain, startToken, -tradeAmount);
+    let held = { token: startToken, amount: tradeAmount };
+    let transactions: TradeTransaction[];
+    try {
+      transactions = await executeSwapPath(backend, cycle.sourceSwaps.map(swap => swap.pool), held, filled => { held = filled; });
+    } catch (error) {
+      // Whatever was filled stays on the source chain, and counts at its USD value in start token terms
+      adjustPaperBalance(sourceChain, held.token, held.amount);
+      const startPriceUSD = getTokenPriceUSD(sourceChain, startToken) ?? 1;
+      const profit = getTokenValueUSD(sourceChain, held.token, held.amount) / startPriceUSD - tradeAmount;
+      addPaperTrade({
+        sourceChain,
+        targetChain,
+        sourcePool: pools[0],
+        targetPool: pools[pools.length - 1],
+        token: startToken,
+        bridgeToken: cycle.bridgeToken,
+        sourcePrice: tradeAmount / quote.bridgedAmount,
+        targetPrice: quote.amountOut / quote.bridgedAmount,
+        amount: tradeAmount,
+        profit,
+        gasCost: gasCostUSD,
+        bridge: quote.bridge?.bridge ?? 'none',
+        bridgeCost: 0,
+        netProfit: profit * startPriceUSD - gasCostUSD,
+        status: 'failed',
+        mode: backend.mode,
+        transactions: [...gate.approvals, ...getSentTransactions(error)],
+        simulation: gate.simulation,
+        settledAt: now(),
+        route: pools
+      });
+      throw error;
+    }
+
+    const trade = addPaperTrade({
+      sourceChain,
+      targetChain,
+      sourcePool: pools[0],
+      targetPool: pools[pools.length - 1],
+      token: startToken,
+      bridgeToken: cycle.bridgeToken,
+      sourcePrice: tradeAmount / quote.bridgedAmount,
+      targetPrice: quote.amountOut / quote.bridgedAmount,
+      amount: tradeAmount,
+      profit: cycle.bridgeToken ? grossProfit : held.amount - tradeAmount,
+      gasCost: gasCostUSD,
+      bridge: quote.bridge?.bridge ?? 'none',
+      bridgeCost: bridgeCostUSD,
+      netProfit: cycle.bridgeToken ? netProfitUSD : getTokenValueUSD(sourceChain, startToken, held.amount - tradeAmount) - gasCostUSD,
+      status: cycle.bridgeToken ? 'pending' : 'executed',
+      mode: backend.mode,
+      transactions: [...gate.approvals, ...transactions],
+      simulation: gate.simulation,
+      settledAt: cycle.bridgeToken ? undefined : now(),
+      route: pools
+    });
+    fields.tradeId = trade.id;
+
+    if (quote.bridge) {
+      const [toPool, ...onwardPools] = cycle.targetSwaps.map(swap => swap.pool);
+      startBridgeTransfer({
+        tradeId: trade.id,
+        token: held.token,
+        amount: held.amount,
+        fromChain: sourceChain,
+        toChain: targetChain,
+        toPool,
+        onwardPools,
+        bridge: quote.bridge.bridge,
+        arrivalTime: now() + quote.bridge.settlementTimeSec * 1000
+      });
+    } else {
+      adjustPaperBalance(sourceChain, startToken, held.amount);
+    }
+
+    recordDecision({ ...decision, action: 'trade', reason: getTradeReason(gate.simulation), netProfit: trade.netProfit, tradeId: trade.id, simulation: gate.simulation });
+
+    const stats = getPaperTradingStats();
+    logCycle(`📊 Cycle Paper Trade Summary${cycle.bridgeToken ? ' (pending settlement)' : ''}:`);
+    logCycle(`  Route: ${cycle.id}`);
+    logCycle(`  Start: ${tradeAmount} ${startToken}`);
+    logCycle(`  ${cycle.bridgeToken ? 'Expected End' : 'End'}: ${(cycle.bridgeToken ? quote.amountOut : held.amount).toFixed(4)} ${startToken}`);
+    logCycle(`  Gas Cost: $${gasCostUSD.toFixed(4)}`);
+    if (quote.bridge) {
+      logCycle(`  Bridge Cost (${cycle.bridgeToken} via ${quote.bridge.bridge}): $${bridgeCostUSD.toFixed(4)}, settles in ${quote.bridge.settlementTimeSec}s`);
+    }
+    logCycle(`  ${cycle.bridgeToken ? 'Expected Net Profit' : 'Net Profit'}: $${trade.netProfit.toFixed(4)}`);
+    logCycle(`  Total Portfolio Value: $${stats.totalValue.toFixed(2)}`);
+
+  } catch (error) {
+    emitAlert({ type: 'trade-failed', severity: 'critical', key: cycle.id, message: `Failed to execute cycle ${cycle.id}: ${error}` }, fields);
+    recordDecision({ ...decision, action: 'skip', reason: `execution failed: ${error}` });
+  }
+}
+
+// Monitoring cycles in a row each chain's RPC hasn't answered
+const rpcFailureStreaks: Record<string, number> = {};
+
+// Alert once when a chain's RPC has been down for RPC_DOWN_ALERT_CYCLES cycles, and again when it answers
+function trackRpcHealth(chainName: string, reachable: boolean): void {
+  const previous = rpcFailureStreaks[chainName] ?? 0;
+  const streak = reachable ? 0 : previous + 1;
+  rpcFailureStreaks[chainName] = streak;
+
+  if (streak === CONFIG.RPC_DOWN_ALERT_CYCLES) {
+    emitAlert({ type: 'rpc-down', severity: 'critical', key: chainName, message: `RPC for ${chainName} has failed ${streak} monitoring cycles in a row`, details: { chain: chainName, cycles: streak } }, { chain: chainName });
+  } else if (reachable && previous >= CONFIG.RPC_DOWN_ALERT_CYCLES) {
+    emitAlert({ type: 'rpc-recovered', severity: 'warning', key: chainName, message: `RPC for ${chainName} answering again after ${previous} failed cycles` }, { chain: chainName });
   }
 }
 
@@ -639,17 +1349,28 @@ export async function monitorPrices(): Promise<void> {
 
   while (true) {
     try {
-      // Get all chain data (including gas costs)
-      await getAllChainData('avalanche');
-      await getAllChainData('sonic');
+      // Get all chain data (including gas costs) for every chain with a registered pool
+      for (const chainName of getRegisteredChains()) {
+        trackRpcHealth(chainName, await getAllChainData(chainName));
+      }
 
       // Calculate total arbitrage gas cost
       const totalGasCost = calculateTotalArbitrageGasCost();
 
-      // Check for arbitrage opportunities (this will fetch pool prices and check opportunities)
-      await checkArbitrageOpportunities();
+      // Re-subscribe any pool event streams that dropped since the last cycle
+      subscribeDroppedPoolEvents();
+
+      if (poolEventsLive()) {
+        // Prices arrive over WebSocket; only settle transfers that have arrived in the meantime. Under the check
+        // lock, so a second leg never fills alongside a check's trades (a running check settles them itself)
+        await runWithCheckLock(() => settlePendingTransfers());
+      } else {
+        // Fallback: poll pool prices and check opportunities
+        await runArbitrageCheck(true);
+      }
 
-      log('Completed price monitoring cycle');
+      Object.assign(loopStats, { cycles: loopStats.cycles + 1, lastCycleAt: now() });
+      log('Completed price monitoring cycle', 'debug');
       await sleep(CONFIG.PRICE_POLLING_INTERVAL);
 
     } catch (error) {
@@ -702,27 +1423,220 @@ export async function monitorChains(): Promise<void> {
 export async function setupWebSocketMonitoring(): Promise<void> {
   log('Setting up WebSocket monitoring...');
 
-  for (const [chainName, wsClient] of Object.entries(wsClients)) {
-    try {
-      // Watch for new blocks
-      const unwatch = await wsClient.watchBlocks({
-        onBlock: (block) => {
-          //log(`${chainName} new block: ${block.number}`);
+  for (const chainName of getRegisteredChains()) {
+    if (!wsClients[chainName]) {
+      log(`${chainName} has no WebSocket URL, pool prices will be polled`, 'warn', { chain: chainName });
+      continue;
+    }
+    subscribePoolEvents(chainName);
+  }
+}
+
+// Active pool event subscriptions per chain; a chain is removed when its socket errors
+const poolEventSubscriptions: Record<string, () => void> = {};
+
+// Stream Swap, Mint, Burn and Fee events (CL pools) and Sync events (reserves pools) for the chain's
+// registered pools into the cached pool state
+function subscribePoolEvents(chainName: string): void {
+  const pools = getRegisteredPools().filter(pool => pool.chain === chainName);
+  const poolIdsByAddress = Object.fromEntries(pools.map(pool => [pool.address.toLowerCase(), pool.id]));
+
+  const wsClient = wsClients[chainName];
+  const address = pools.map(pool => pool.address as `0x${string}`);
+  const onError = (error: Error) => {
+    if (!poolEventSubscriptions[chainName]) return; // Already reported by another stream on this socket
+    log(`${chainName} WebSocket error, falling back to polling: ${error}`, 'error', { chain: chainName });
+    unsubscribePoolEvents(chainName);
+  };
+
+  try {
+    const unwatchers = [
+      wsClient.watchContractEvent({
+        address,
+        abi: POOL_EVENTS_ABI,
+        eventName: 'Swap',
+        strict: true,
+        onLogs: (logs) => {
+          let priceMoved = false;
+          for (const { address: poolAddress, args } of logs) {
+            const poolId = poolIdsByAddress[poolAddress.toLowerCase()];
+            if (poolId && applySwapEvent(poolId, args.sqrtPriceX96, args.liquidity, args.tick)) {
+              priceMoved = true;
+            }
+          }
+
+          if (priceMoved) {
+            scheduleArbitrageCheck();
+          }
         },
-        onError: (error) => {
-          log(`${chainName} WebSocket error: ${error}`, 'error');
+        onError,
+      }),
+      wsClient.watchContractEvent({
+        address,
+        abi: POOL_EVENTS_ABI,
+        eventName: 'Mint',
+        strict: true,
+        onLogs: (logs) => {
+          for (const { address: poolAddress, args } of logs) {
+            const poolId = poolIdsByAddress[poolAddress.toLowerCase()];
+            if (poolId) applyLiquidityEvent(poolId, args.tickLower, args.tickUpper, args.amount);
+          }
         },
-      });
+        onError,
+      }),
+      wsClient.watchContractEvent({
+        address,
+        abi: POOL_EVENTS_ABI,
+        eventName: 'Burn',
+        strict: true,
+        onLogs: (logs) => {
+          for (const { address: poolAddress, args } of logs) {
+            const poolId = poolIdsByAddress[poolAddress.toLowerCase()];
+            if (poolId) applyLiquidityEvent(poolId, args.tickLower, args.tickUpper, -args.amount);
+          }
+        },
+        onError,
+      }),
+      wsClient.watchContractEvent({
+        address,
+        abi: POOL_EVENTS_ABI,
+        eventName: 'Fee',
+        strict: true,
+        onLogs: (logs) => {
+          for (const { address: poolAddress, args } of logs) {
+            const poolId = poolIdsByAddress[poolAddress.toLowerCase()];
+            if (poolId) applyFeeEvent(poolId, args.fee);
+          }
+        },
+        onError,
+      }),
+      ...[V2_SYNC_EVENT_ABI, SOLIDLY_SYNC_EVENT_ABI].map(abi => wsClient.watchContractEvent({
+        address,
+        abi,
+        eventName: 'Sync',
+        strict: true,
+        onLogs: (logs) => {
+          let priceMoved = false;
+          for (const { address: poolAddress, args } of logs) {
+            const poolId = poolIdsByAddress[poolAddress.toLowerCase()];
+            if (poolId && applySyncEvent(poolId, args.reserve0, args.reserve1)) {
+              priceMoved = true;
+            }
+          }
+
+          if (priceMoved) {
+            scheduleArbitrageCheck();
+          }
+        },
+        onError,
+      })),
+    ];
+    poolEventSubscriptions[chainName] = () => unwatchers.forEach(unwatch => unwatch());
+
+    log(`${chainName} WebSocket monitoring started for ${pools.length} pool(s)`, 'info', { chain: chainName });
+  } catch (error) {
+    log(`Failed to setup ${chainName} WebSocket monitoring: ${error}`, 'error', { chain: chainName });
+  }
+}
 
-      log(`${chainName} WebSocket monitoring started`);
+function unsubscribePoolEvents(chainName: string): void {
+  const unwatch = poolEventSubscriptions[chainName];
+  if (!unwatch) return;
 
-      // Store unwatch function for cleanup (in a real app, you'd manage this properly)
+  delete poolEventSubscriptions[chainName];
+  try {
+    unwatch();
+  } catch {
+    // The socket is already gone
+  }
+}
 
-    } catch (error) {
-      log(`Failed to setup ${chainName} WebSocket monitoring: ${error}`, 'error');
+// Try again on chains whose subscription dropped (called from the polling loop)
+function subscribeDroppedPoolEvents(): void {
+  for (const chainName of getRegisteredChains()) {
+    if (wsClients[chainName] && !poolEventSubscriptions[chainName]) {
+      subscribePoolEvents(chainName);
     }
   }
 }
 
+// True when every traded pool is subscribed and its state was fully loaded recently enough
+function poolEventsLive(): boolean {
+  return getTradedPools().every(pool => {
+    const entry = poolStates[pool.id];
+    return poolEventSubscriptions[pool.chain]
+      && entry
+      && now() - entry.state.timestamp < CONFIG.POOL_STATE_RESYNC_INTERVAL;
+  });
+}
+
+// Progress of the monitoring loop and of arbitrage checks (read by the metrics endpoint to spot a stalled loop)
+export const loopStats = { cycles: 0, lastCycleAt: 0, checks: 0, lastCheckAt: 0, lastCheckDurationMs: 0 };
+
+// Decisions of the last completed check, for the dashboard
+export const latestDecisions: ArbitrageDecision[] = [];
+
+let checkTimer: NodeJS.Timeout | null = null;
+let checkRunning = false;
+let checkQueued = false;
+
+// Coalesce bursts of price moves into a single check against the cached pool state
+function scheduleArbitrageCheck(): void {
+  if (checkTimer) return;
+
+  checkTimer = setTimeout(() => {
+    checkTimer = null;
+    runArbitrageCheck(false).catch(error => log(`Event-triggered arbitrage check failed: ${error}`, 'error'));
+  }, CONFIG.EVENT_DEBOUNCE_MS);
+}
+
+export function isCheckRunning(): boolean {
+  return checkRunning;
+}
+
+// Run one check at a time and return its decisions; a check requested while one is running is queued behind it (null then)
+export async function runArbitrageCheck(refreshPools: boolean): Promise<ArbitrageDecision[] | null> {
+  if (checkRunning) {
+    checkQueued = true;
+    return null;
+  }
+
+  checkRunning = true;
+  const startedAt = now();
+  try {
+    const decisions = await checkArbitrageOpportunities(refreshPools);
+    await recordMarketSnapshot(decisions);
+    latestDecisions.splice(0, latestDecisions.length, ...decisions);
+    Object.assign(loopStats, { checks: loopStats.checks + 1, lastCheckAt: now(), lastCheckDurationMs: now() - startedAt });
+    return decisions;
+  } finally {
+    releaseCheckLock();
+  }
+}
+
+// Run an action that moves funds outside a check (a manual rebalance, settling transfers) under the same lock as the
+// checks, so it never overlaps a check's trades or rebalancing. Returns null without running it while a check is running
+export async function runWithCheckLock<T>(action: () => Promise<T>): Promise<T | null> {
+  if (checkRunning) {
+    return null;
+  }
+
+  checkRunning = true;
+  try {
+    return await action();
+  } finally {
+    releaseCheckLock();
+  }
+}
+
+// Checks requested while the lock was held run once it's released
+function releaseCheckLock(): void {
+  checkRunning = false;
+  if (checkQueued) {
+    checkQueued = false;
+    scheduleArbitrageCheck();
+  }
+}
+
 // Export clients for use in other modules
 export { clients, wsClients, CONFIG, CHAIN_NAMES };
\ No newline at end of file
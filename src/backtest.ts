@@ -0,0 +1,311 @@
+import { config } from 'dotenv';
+
+// Load environment variables FIRST, before any other imports
+config();
+
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { PublicClient } from 'viem';
+import { clients, CONFIG, CHAIN_CONFIGS } from './clients';
+import { log, setClock } from './utils';
+import { loadRegistry, getRegisteredChains } from './registry';
+import {
+  getAllPoolMetadata,
+  getPoolState,
+  getUSDPrice,
+  setPoolState,
+  setUSDPrice,
+  setPriceUnavailable,
+  storeSwapGasCost,
+  cachePoolMetadata,
+  poolStates
+} from './getters';
+import {
+  checkArbitrageOpportunities,
+  getTradedPools,
+  getPaperTradingStats,
+  paperTrades,
+  type PaperTrade
+} from './arbitrage';
+import { getNativeUsdPrice } from './recorder';
+import { STABLECOINS } from './depeg';
+import { getNonStableTokens } from './valuation';
+import { rebalanceMoves, type RebalanceMove } from './rebalancer';
+import { getPriceFeed } from './oracles';
+import { readSnapshots, serializePoolState, deserializePoolState, type MarketSnapshot } from './snapshots';
+
+export interface PnlPoint {
+  timestamp: number;
+  totalProfit: number; // Realized net profit of settled trades
+  totalValue: number;  // Token balances plus funds in transit, in USD
+}
+
+export interface BacktestReport {
+  from: number;
+  to: number;
+  snapshots: number;
+  profitThreshold: number;
+  maxTradeFraction: number;
+  trades: PaperTrade[];
+  rebalances: RebalanceMove[];
+  pnlCurve: PnlPoint[];
+  stats: ReturnType<typeof getPaperTradingStats>;
+  maxDrawdown: number; // Largest peak-to-trough fall in realized profit, USD
+}
+
+let warnedNoStablecoinPrices = false;
+
+// Load a snapshot's metadata, pool states, gas prices and native, stablecoin and token prices into the live caches
+function applySnapshot(snapshot: MarketSnapshot): void {
+  for (const [poolId, pool] of Object.entries(snapshot.pools)) {
+    cachePoolMetadata(pool.metadata);
+    setPoolState(poolId, pool.metadata, deserializePoolState(pool, snapshot.timestamp));
+  }
+
+  for (const [chainName, chain] of Object.entries(snapshot.chains)) {
+    storeSwapGasCost(chainName, BigInt(chain.gasPrice));
+
+    const nativeSymbol = CHAIN_CONFIGS[chainName].nativeCurrency.symbol;
+    if (chain.nativeUsdPrice !== undefined) {
+      setUSDPrice(chainName, nativeSymbol, chain.nativeUsdPrice);
+    } else {
+      setPriceUnavailable(chainName, nativeSymbol, chain.priceUnavailable ?? 'not recorded');
+    }
+
+    for (const [token, price] of Object.entries({ ...chain.stablecoinUsdPrices, ...chain.tokenUsdPrices })) {
+      if (price === null) {
+        setPriceUnavailable(chainName, token, 'unavailable when recorded');
+      } else {
+        setUSDPrice(chainName, token, price);
+      }
+    }
+  }
+
+  // Snapshots recorded before stablecoin prices were captured replay at par
+  if (!Object.values(snapshot.chains).some(chain => chain.stablecoinUsdPrices)) {
+    if (!warnedNoStablecoinPrices) {
+      log('Snapshots carry no stablecoin prices, replaying USDC and USDT at $1', 'warn');
+      warnedNoStablecoinPrices = true;
+    }
+    for (const chainName of Object.keys(snapshot.chains)) {
+      for (const token of STABLECOINS) {
+        setUSDPrice(chainName, token, 1);
+      }
+    }
+  }
+}
+
+// Largest drop from a running peak
+function calculateMaxDrawdown(values: number[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    maxDrawdown = Math.max(maxDrawdown, peak - value);
+  }
+
+  return maxDrawdown;
+}
+
+// Replay snapshots through the same decision path as live monitoring, on a simulated clock
+export async function runBacktest(snapshots: MarketSnapshot[]): Promise<BacktestReport> {
+  if (snapshots.length === 0) {
+    throw new Error('No snapshots to replay');
+  }
+
+  let currentTime = snapshots[0].timestamp;
+  setClock(() => currentTime);
+
+  const pairedPoolIds = getTradedPools().map(pool => pool.id);
+  const pnlCurve: PnlPoint[] = [];
+
+  for (const snapshot of snapshots) {
+    currentTime = snapshot.timestamp;
+    applySnapshot(snapshot);
+
+    // Never fall through to live RPC reads: wait until every paired pool has been seen
+    const missing = pairedPoolIds.filter(poolId => !poolStates[poolId]);
+    if (missing.length > 0) {
+      log(`Skipping snapshot at ${new Date(snapshot.timestamp).toISOString()}: no state yet for ${missing.join(', ')}`, 'warn');
+      continue;
+    }
+
+    await checkArbitrageOpportunities(false);
+
+    const stats = getPaperTradingStats();
+    pnlCurve.push({ timestamp: snapshot.timestamp, totalProfit: stats.totalProfit, totalValue: stats.totalValue });
+  }
+
+  return {
+    from: snapshots[0].timestamp,
+    to: snapshots[snapshots.length - 1].timestamp,
+    snapshots: snapshots.length,
+    profitThreshold: CONFIG.PROFIT_THRESHOLD,
+    maxTradeFraction: CONFIG.MAX_TRADE_FRACTION,
+    trades: [...paperTrades],
+    rebalances: [...rebalanceMoves],
+    pnlCurve,
+    stats: getPaperTradingStats(),
+    maxDrawdown: calculateMaxDrawdown(pnlCurve.map(point => point.totalProfit)),
+  };
+}
+
+// Latest block at or before a timestamp (seconds), searching upwards from a known-earlier block
+async function findBlockAtTimestamp(client: PublicClient, timestamp: number, lowerBound: bigint = 0n): Promise<bigint> {
+  const latest = await client.getBlock();
+  if (latest.timestamp <= BigInt(timestamp)) {
+    return latest.number;
+  }
+
+  let low = lowerBound;
+  let high = latest.number;
+  while (low < high) {
+    const mid = (low + high + 1n) / 2n;
+    const block = await client.getBlock({ blockNumber: mid });
+    if (block.timestamp <= BigInt(timestamp)) {
+      low = mid;
+    } else {
+      high = mid - 1n;
+    }
+  }
+
+  return low;
+}
+
+// Gas price paid at a block: its base fee plus the median priority fee paid in it, like the live fee estimate, or
+// the median gas price of its transactions on a chain without a base fee
+async function getHistoricalGasPrice(client: PublicClient, blockNumber: bigint): Promise<bigint> {
+  const { baseFeePerGas } = await client.getBlock({ blockNumber });
+  if (baseFeePerGas !== null) {
+    const { reward } = await client.getFeeHistory({ blockCount: 1, blockNumber, rewardPercentiles: [50] });
+    return baseFeePerGas + (reward?.[0]?.[0] ?? 0n);
+  }
+
+  const { transactions } = await client.getBlock({ blockNumber, includeTransactions: true });
+  const gasPrices = transactions.flatMap(transaction => transaction.gasPrice !== undefined ? [transaction.gasPrice] : []).sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+  return gasPrices[Math.floor(gasPrices.length / 2)] ?? 0n;
+}
+
+// Build snapshots with historical eth_calls at the block matching each step (needs archive RPCs)
+export async function fetchHistoricalSnapshots(fromSec: number, toSec: number, stepSec: number): Promise<MarketSnapshot[]> {
+  const poolMetadata = await getAllPoolMetadata();
+  const chains = getRegisteredChains();
+  const lastBlocks: Record<string, bigint> = {};
+  const snapshots: MarketSnapshot[] = [];
+
+  for (let timestamp = fromSec; timestamp <= toSec; timestamp += stepSec) {
+    const snapshot: MarketSnapshot = { timestamp: timestamp * 1000, pools: {}, chains: {} };
+    const blockNumbers: Record<string, bigint> = {};
+
+    for (const chainName of chains) {
+      const client = clients[chainName];
+      const blockNumber = await findBlockAtTimestamp(client, timestamp, lastBlocks[chainName]);
+      blockNumbers[chainName] = lastBlocks[chainName] = blockNumber;
+
+      snapshot.chains[chainName] = {
+        blockNumber: blockNumber.toString(),
+        gasPrice: (await getHistoricalGasPrice(client, blockNumber)).toString(),
+        ...await getNativeUsdPrice(chainName, blockNumber),
+      };
+
+      const stableFeeds = STABLECOINS.filter(token => getPriceFeed(chainName, token));
+      if (stableFeeds.length > 0) {
+        snapshot.chains[chainName].stablecoinUsdPrices = Object.fromEntries(await Promise.all(
+          stableFeeds.map(async token => [token, await getUSDPrice(chainName, token, blockNumber).catch(() => null)])
+        ));
+      }
+
+      const tokenFeeds = getNonStableTokens().filter(token => getPriceFeed(chainName, token));
+      if (tokenFeeds.length > 0) {
+        snapshot.chains[chainName].tokenUsdPrices = Object.fromEntries(await Promise.all(
+          tokenFeeds.map(async token => [token, await getUSDPrice(chainName, token, blockNumber).catch(() => null)])
+        ));
+      }
+    }
+
+    for (const [poolId, metadata] of Object.entries(poolMetadata)) {
+      const blockNumber = blockNumbers[metadata.chain];
+      const state = await getPoolState(clients[metadata.chain], metadata, blockNumber);
+      snapshot.pools[poolId] = serializePoolState(metadata, state, blockNumber);
+    }
+
+    log(`📼 Fetched historical snapshot for ${new Date(timestamp * 1000).toISOString()}`);
+    snapshots.push(snapshot);
+  }
+
+  return snapshots;
+}
+
+function logBacktestReport(report: BacktestReport): void {
+  log('📊 Backtest report');
+  log(`  Period: ${new Date(report.from).toISOString()} → ${new Date(report.to).toISOString()} (${report.snapshots} snapshots)`);
+  log(`  Profit threshold: $${report.profitThreshold}, max trade fraction: ${report.maxTradeFraction * 100}%`);
+  log(`  Trades: ${report.stats.totalTrades} settled, ${report.stats.pendingTrades} still pending`);
+  for (const trade of report.trades) {
+    log(`    ${new Date(trade.timestamp).toISOString()} ${trade.sourcePool} → ${trade.targetPool} ${trade.amount.toFixed(2)} via ${trade.bridge}: net $${trade.netProfit.toFixed(4)} (${trade.status})`);
+  }
+  log(`  Rebalancing: ${report.stats.rebalances} moves, cost $${report.stats.rebalanceCost.toFixed(4)} (not included in P&L)`);
+  for (const move of report.rebalances) {
+    log(`    ${new Date(move.timestamp).toISOString()} ${move.amount.toFixed(2)} ${move.fromToken} on ${move.fromChain} → ${move.toToken} on ${move.toChain}: cost $${move.totalCost.toFixed(4)} (${move.status})`);
+  }
+  log(`  Win rate: ${report.stats.winRate.toFixed(1)}% (${report.stats.profitableTrades}/${report.stats.totalTrades})`);
+  log(`  Net P&L: $${report.stats.totalProfit.toFixed(4)}, max drawdown: $${report.maxDrawdown.toFixed(4)}`);
+  log(`  Final portfolio value: $${report.stats.totalValue.toFixed(2)}`);
+}
+
+// Value of a --name argument, if given
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const file = getArg('file');
+  const from = getArg('from');
+  const to = getArg('to');
+  const threshold = getArg('threshold');
+  const maxTradeFraction = getArg('max-trade-fraction');
+
+  if (!file && !(from && to)) {
+    throw new Error('Usage: backtest --file <snapshots.jsonl[.gz]|dir> | --from <ISO date> --to <ISO date> [--step <sec>] [--threshold <USD>] [--max-trade-fraction <0-1>]');
+  }
+
+  // Parameters under test
+  if (threshold !== undefined) CONFIG.PROFIT_THRESHOLD = parseFloat(threshold);
+  if (maxTradeFraction !== undefined) CONFIG.MAX_TRADE_FRACTION = parseFloat(maxTradeFraction);
+
+  // Replays never touch the chain: no simulation, and gas comes from the configured limits at the recorded prices
+  CONFIG.SIMULATE_TRADES = false;
+  CONFIG.ESTIMATE_GAS = false;
+
+  // Keep the backtest's paper trades out of the live ledger
+  const runId = `backtest-${Date.now()}`;
+  mkdirSync(CONFIG.BACKTEST_PATH, { recursive: true });
+  CONFIG.LEDGER_PATH = path.join(CONFIG.BACKTEST_PATH, `${runId}.ledger.jsonl`);
+
+  loadRegistry();
+
+  const snapshots = file
+    ? readSnapshots(file)
+    : await fetchHistoricalSnapshots(
+      Math.floor(Date.parse(from!) / 1000),
+      Math.floor(Date.parse(to!) / 1000),
+      parseInt(getArg('step') || '60', 10)
+    );
+  log(`📼 Replaying ${snapshots.length} snapshots`);
+
+  const report = await runBacktest(snapshots);
+  logBacktestReport(report);
+
+  const reportPath = path.join(CONFIG.BACKTEST_PATH, `${runId}.json`);
+  writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  log(`Backtest report written to ${reportPath}`);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    log(`Backtest failed: ${error}`, 'error');
+    process.exit(1);
+  });
+}
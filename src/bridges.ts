@@ -0,0 +1,191 @@
+import { parseAbi, parseUnits, encodeFunctionData, pad, zeroHash } from 'viem';
+import { clients, CONFIG } from './clients';
+import { getRegistry } from './registry';
+import { getTokenPriceUSD } from './valuation';
+
+// Cost, limits and latency of moving a token between two chains
+export interface BridgeQuote {
+  bridge: string;
+  token: string;
+  fromChain: string;
+  toChain: string;
+  amount: number;
+  feeUSD: number;
+  minAmount: number;
+  maxAmount: number;
+  settlementTimeSec: number;
+}
+
+// Pluggable bridge integration
+export interface BridgeAdapter {
+  name: string;
+  supports(token: string, fromChain: string, toChain: string): boolean;
+  getQuote(token: string, fromChain: string, toChain: string, amount: number): BridgeQuote;
+  // Transaction that sends the quoted transfer from the sender (used for gas estimation), or null when the adapter
+  // doesn't know the bridge contracts on both chains
+  buildTransaction?(quote: BridgeQuote, sender: `0x${string}`): Promise<BridgeTransaction | null>;
+}
+
+export interface BridgeTransaction {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value?: bigint;
+}
+
+// A bridge's contracts on one chain
+export interface BridgeChainContracts {
+  tokenMessenger?: string;           // cctp: Circle's TokenMessengerV2
+  domain?: number;                   // cctp: Circle's domain id for the chain
+  eid?: number;                      // stargate, layerzero: LayerZero V2 endpoint id for the chain
+  oft?: Record<string, string>;      // stargate, layerzero: Stargate pool or OFT contract sending each token
+}
+
+// Static-fee route as declared in the registry's "bridges" section
+export interface StaticBridgeConfig {
+  name: string;
+  style: 'stargate' | 'cctp' | 'layerzero';
+  tokens: string[];
+  chains: string[];
+  fixedFeeUSD: number;
+  feeBps: number; // Of the transferred USD value
+  minAmount: number; // In the bridged token
+  maxAmount: number;
+  settlementTimeSec: number;
+  contracts?: Record<string, BridgeChainContracts>; // By chain; without them gas estimates use the chain's gasLimits.bridge
+}
+
+const CCTP_TOKEN_MESSENGER_ABI = parseAbi([
+  'function depositForBurn(uint256 amount, uint32 destinationDomain, bytes32 mintRecipient, address burnToken, bytes32 destinationCaller, uint256 maxFee, uint32 minFinalityThreshold) external',
+]);
+
+// Stargate V2 pools implement the LayerZero OFT send interface
+const OFT_ABI = parseAbi([
+  'struct SendParam { uint32 dstEid; bytes32 to; uint256 amountLD; uint256 minAmountLD; bytes extraOptions; bytes composeMsg; bytes oftCmd; }',
+  'struct MessagingFee { uint256 nativeFee; uint256 lzTokenFee; }',
+  'function quoteSend(SendParam sendParam, bool payInLzToken) external view returns (MessagingFee fee)',
+  'function send(SendParam sendParam, MessagingFee fee, address refundAddress) external payable',
+]);
+
+// CCTP finality threshold for a standard (fee-free, hard finality) transfer
+const CCTP_STANDARD_FINALITY = 2000;
+
+// Fixed fee plus a proportional fee, with fixed limits and latency
+export function createStaticFeeBridge(config: StaticBridgeConfig): BridgeAdapter {
+  // The sent token's address and amount in its smallest unit, on the source chain
+  const getSentToken = (quote: BridgeQuote) => {
+    const token = getRegistry().chains[quote.fromChain]?.tokens[quote.token];
+    if (!token?.address || token.decimals === undefined) {
+      return null;
+    }
+    return { address: token.address as `0x${string}`, amount: parseUnits(quote.amount.toFixed(token.decimals), token.decimals) };
+  };
+
+  return {
+    name: config.name,
+
+    supports(token, fromChain, toChain) {
+      return fromChain !== toChain
+        && config.tokens.includes(token)
+        && config.chains.includes(fromChain)
+        && config.chains.includes(toChain);
+    },
+
+    getQuote(token, fromChain, toChain, amount) {
+      const priceUSD = getTokenPriceUSD(fromChain, token);
+      if (priceUSD === undefined) {
+        throw new Error(`${config.name}: no USD price for ${token} on ${fromChain}`);
+      }
+
+      return {
+        bridge: config.name,
+        token,
+        fromChain,
+        toChain,
+        amount,
+        feeUSD: config.fixedFeeUSD + amount * priceUSD * config.feeBps / 10000,
+        minAmount: config.minAmount,
+        maxAmount: config.maxAmount,
+        settlementTimeSec: config.settlementTimeSec,
+      };
+    },
+
+    async buildTransaction(quote, sender) {
+      const from = config.contracts?.[quote.fromChain];
+      const to = config.contracts?.[quote.toChain];
+      const token = getSentToken(quote);
+      if (!from || !to || !token) {
+        return null;
+      }
+      const recipient = pad(sender, { size: 32 });
+
+      if (config.style === 'cctp') {
+        if (!from.tokenMessenger || to.domain === undefined) {
+          return null;
+        }
+        return {
+          to: from.tokenMessenger as `0x${string}`,
+          data: encodeFunctionData({
+            abi: CCTP_TOKEN_MESSENGER_ABI,
+            functionName: 'depositForBurn',
+            args: [token.amount, to.domain, recipient, token.address, zeroHash, 0n, CCTP_STANDARD_FINALITY],
+          }),
+        };
+      }
+
+      const oft = from.oft?.[quote.token] as `0x${string}` | undefined;
+      if (!oft || to.eid === undefined) {
+        return null;
+      }
+      const sendParam = {
+        dstEid: to.eid,
+        to: recipient,
+        amountLD: token.amount,
+        minAmountLD: token.amount * BigInt(10000 - config.feeBps - CONFIG.MAX_SLIPPAGE_BPS) / 10000n,
+        extraOptions: '0x',
+        composeMsg: '0x',
+        oftCmd: '0x', // Stargate taxi mode: sent on its own rather than batched on a bus
+      } as const;
+      // The LayerZero messaging fee is paid in the native token with the send
+      const fee = await clients[quote.fromChain].readContract({ address: oft, abi: OFT_ABI, functionName: 'quoteSend', args: [sendParam, false] });
+      return {
+        to: oft,
+        data: encodeFunctionData({ abi: OFT_ABI, functionName: 'send', args: [sendParam, fee, sender] }),
+        value: fee.nativeFee,
+      };
+    },
+  };
+}
+
+let bridgeAdapters: BridgeAdapter[] | null = null;
+
+// Adapters built from the registry, plus any registered at runtime
+export function getBridgeAdapters(): BridgeAdapter[] {
+  if (!bridgeAdapters) {
+    bridgeAdapters = (getRegistry().bridges ?? []).map(createStaticFeeBridge);
+  }
+  return bridgeAdapters;
+}
+
+export function registerBridgeAdapter(adapter: BridgeAdapter): void {
+  getBridgeAdapters().push(adapter);
+}
+
+// Cheapest bridge that can carry the amount, or null if no route exists (adapters that can't quote are skipped)
+export function getBestBridgeQuote(token: string, fromChain: string, toChain: string, amount: number): BridgeQuote | null {
+  const quotes = getBridgeAdapters()
+    .filter(adapter => adapter.supports(token, fromChain, toChain))
+    .flatMap(adapter => {
+      try {
+        return [adapter.getQuote(token, fromChain, toChain, amount)];
+      } catch {
+        return [];
+      }
+    })
+    .filter(quote => amount >= quote.minAmount && amount <= quote.maxAmount);
+
+  if (quotes.length === 0) {
+    return null;
+  }
+
+  return quotes.reduce((best, quote) => quote.feeUSD < best.feeUSD ? quote : best);
+}
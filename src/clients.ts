@@ -1,71 +1,248 @@
-import { createPublicClient, http, webSocket, PublicClient } from 'viem';
-import { avalanche } from 'viem/chains';
+import { createPublicClient, createWalletClient, http, webSocket, PublicClient, WalletClient, defineChain, type Chain } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { LogLevel } from './logger';
 
 // Configuration
 const CONFIG = {
-  // RPC endpoints - replace with your own if needed
-  AVALANCHE_RPC: `https://avax-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_API_KEY}`,
-  SONIC_RPC: `https://sonic-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_API_KEY}`,
-
-  // WebSocket endpoints for real-time data
-  AVALANCHE_WS: `wss://avax-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_API_KEY}`,
-  SONIC_WS: `wss://sonic-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_API_KEY}`,
+  // Chain definitions (chain id, native currency, RPC/WS URLs, Chainlink native feed, gas limits)
+  CHAINS_PATH: process.env.CHAINS_PATH || path.resolve(__dirname, '../config/chains.json'),
 
   // Polling intervals
   BLOCK_POLLING_INTERVAL: 1000, // 1 second
   PRICE_POLLING_INTERVAL: 5000, // 5 seconds
 
+  // Event-driven pricing
+  EVENT_DEBOUNCE_MS: 500, // Coalesce bursts of pool events into one arbitrage check
+  POOL_STATE_RESYNC_INTERVAL: 60000, // Reload full pool state this often even while events are live (1 minute)
+
   // Retry configuration
   MAX_RETRIES: 3,
   RETRY_DELAY: 1000, // 1 second
 
   // Trading configuration
   PROFIT_THRESHOLD: parseFloat(process.env.PROFIT_THRESHOLD || '0'), // Minimum net profit in USD to execute trades
+  MAX_TRADE_FRACTION: parseFloat(process.env.MAX_TRADE_FRACTION || '0.5'), // Largest share of the source balance a single trade may use
+
+  // Paper trading ledger (append-only JSONL, replayed on startup)
+  LEDGER_PATH: process.env.LEDGER_PATH || path.resolve(__dirname, '../data/ledger.jsonl'),
+
+  // Market-data recorder (one gzipped JSONL file of snapshots per UTC day)
+  SNAPSHOT_PATH: process.env.SNAPSHOT_PATH || path.resolve(__dirname, '../data/snapshots'),
+  RECORD_SNAPSHOTS: process.env.RECORD_SNAPSHOTS !== 'false',
+
+  // Backtest reports and their paper trading ledgers
+  BACKTEST_PATH: process.env.BACKTEST_PATH || path.resolve(__dirname, '../data/backtests'),
+
+  // Pool registry (chains, DEXes, pools and token aliases)
+  REGISTRY_PATH: process.env.REGISTRY_PATH || path.resolve(__dirname, '../config/registry.json'),
+
+  // Execution backend: 'paper' simulates fills, 'live' signs and sends swaps with PRIVATE_KEY
+  EXECUTION_MODE: (process.env.EXECUTION_MODE || 'paper') as 'paper' | 'live',
+  MAX_SLIPPAGE_BPS: parseInt(process.env.MAX_SLIPPAGE_BPS || '30', 10), // amountOutMinimum = quoted output less this
+  SWAP_DEADLINE_SEC: 120, // Router deadline for live swaps
+
+  // Pre-trade eth_call simulation of every leg (paper and live)
+  SIMULATE_TRADES: process.env.SIMULATE_TRADES !== 'false',
+  SIMULATION_TOLERANCE_BPS: parseFloat(process.env.SIMULATION_TOLERANCE_BPS || '10'), // Max shortfall of simulated output versus the quote
+  SIMULATION_ACCOUNT: process.env.SIMULATION_ACCOUNT, // Funded, router-approved address to simulate from when there's no wallet
+
+  // Stablecoin depeg circuit breaker (halts new trades; resumes once conditions stay clear for the recovery period)
+  DEPEG_BREAKER: process.env.DEPEG_BREAKER !== 'false',
+  DEPEG_BAND_BPS: parseFloat(process.env.DEPEG_BAND_BPS || '50'), // Largest allowed move of any stablecoin from $1
+  MAX_POOL_DISAGREEMENT_BPS: parseFloat(process.env.MAX_POOL_DISAGREEMENT_BPS || '100'), // Larger gaps between paired pools are treated as bad data or a depeg
+  DEPEG_RECOVERY_MS: 900000,
+
+  // Per-route gas estimation (falls back to the chain's gasLimits when off or when a step can't be estimated)
+  ESTIMATE_GAS: process.env.ESTIMATE_GAS !== 'false',
+  GAS_ESTIMATE_TTL_MS: 300000, // How long a route's gas estimate is reused
+
+  // Risk limits every trade must pass before execution
+  RISK_MAX_NOTIONAL_USD: parseFloat(process.env.RISK_MAX_NOTIONAL_USD || '25000'), // Largest single trade
+  RISK_MAX_CHAIN_EXPOSURE_USD: parseFloat(process.env.RISK_MAX_CHAIN_EXPOSURE_USD || '50000'), // Open (unsettled) trades touching one chain
+  RISK_MAX_BRIDGE_EXPOSURE_USD: parseFloat(process.env.RISK_MAX_BRIDGE_EXPOSURE_USD || '50000'), // Funds in transit through one bridge
+  RISK_MAX_DAILY_LOSS_USD: parseFloat(process.env.RISK_MAX_DAILY_LOSS_USD || '250'), // Realized net loss since UTC midnight
+  RISK_MAX_TRADES_PER_HOUR: parseInt(process.env.RISK_MAX_TRADES_PER_HOUR || '30', 10),
+  KILL_SWITCH_PATH: process.env.KILL_SWITCH_PATH || path.resolve(__dirname, '../data/KILL'), // New trades are blocked while this file exists
+
+  // Inventory rebalancing towards each chain's target allocation (moves run only in quiet periods)
+  REBALANCE: process.env.REBALANCE !== 'false',
+  REBALANCE_DRIFT_BPS: parseFloat(process.env.REBALANCE_DRIFT_BPS || '1000'), // Drift of any holding from its target, as a share of the portfolio
+  REBALANCE_MAX_COST_BPS: parseFloat(process.env.REBALANCE_MAX_COST_BPS || '30'), // Skip moves costing more than this share of the amount moved
+  REBALANCE_QUIET_MS: parseInt(process.env.REBALANCE_QUIET_MS || '600000', 10), // Time since the last arbitrage trade before moves may run
+
+  // Multi-hop route discovery: cycles through every registered pool, within and across chains
+  MULTI_HOP_ROUTES: process.env.MULTI_HOP_ROUTES !== 'false',
+  MAX_ROUTE_HOPS: parseInt(process.env.MAX_ROUTE_HOPS || '4', 10), // Swaps plus the bridge in one cycle
+
+  // Logging: minimum level, stdout format, and an optional JSON lines file rotated by size
+  LOG_LEVEL: (process.env.LOG_LEVEL || 'info') as LogLevel, // trace, debug, info, warn or error
+  LOG_FORMAT: (process.env.LOG_FORMAT || 'text') as 'text' | 'json',
+  LOG_STDOUT: process.env.LOG_STDOUT !== 'false',
+  LOG_FILE: process.env.LOG_FILE,
+  LOG_FILE_MAX_BYTES: parseInt(process.env.LOG_FILE_MAX_BYTES || '10485760', 10), // 10 MB
+  LOG_FILE_MAX_FILES: parseInt(process.env.LOG_FILE_MAX_FILES || '5', 10), // Rotated files kept
+
+  // Prometheus /metrics endpoint (off unless a port is set)
+  METRICS_PORT: parseInt(process.env.METRICS_PORT || '0', 10),
+  METRICS_HOST: process.env.METRICS_HOST || '127.0.0.1',
+
+  // Control/status HTTP API (off unless a port is set; every request needs API_TOKEN as a bearer token)
+  API_PORT: parseInt(process.env.API_PORT || '0', 10),
+  API_HOST: process.env.API_HOST || '127.0.0.1',
+  API_TOKEN: process.env.API_TOKEN,
+
+  // Terminal dashboard in place of the scrolling log (also enabled by --tui; needs stdout to be a TTY)
+  TUI: process.env.TUI === 'true',
+  TUI_REFRESH_MS: parseInt(process.env.TUI_REFRESH_MS || '1000', 10),
+  TUI_HISTORY_POINTS: 60, // Price and spread samples kept per sparkline
+
+  // Notifications: alerts forwarded to every configured sink, filtered by event and rate limited
+  NOTIFY_WEBHOOK_URL: process.env.NOTIFY_WEBHOOK_URL, // Receives each alert as JSON
+  NOTIFY_SLACK_WEBHOOK_URL: process.env.NOTIFY_SLACK_WEBHOOK_URL, // Slack (or compatible) incoming webhook
+  NOTIFY_TELEGRAM_BOT_TOKEN: process.env.NOTIFY_TELEGRAM_BOT_TOKEN,
+  NOTIFY_TELEGRAM_CHAT_ID: process.env.NOTIFY_TELEGRAM_CHAT_ID,
+  NOTIFY_MOCK: process.env.NOTIFY_MOCK === 'true', // Log notifications locally instead of sending them
+  NOTIFY_EVENTS: process.env.NOTIFY_EVENTS, // Comma-separated alert types to forward (all when unset)
+  NOTIFY_OPPORTUNITY_MIN_BPS: parseFloat(process.env.NOTIFY_OPPORTUNITY_MIN_BPS || '10'), // Smallest net margin of an opportunity worth a notification
+  NOTIFY_COOLDOWN_MS: parseInt(process.env.NOTIFY_COOLDOWN_MS || '300000', 10), // Between notifications about the same condition
+  NOTIFY_MAX_PER_HOUR: parseInt(process.env.NOTIFY_MAX_PER_HOUR || '30', 10), // Across all sinks; critical alerts are always sent
+  NOTIFY_DAILY_DIGEST: process.env.NOTIFY_DAILY_DIGEST !== 'false',
+  NOTIFY_DIGEST_HOUR_UTC: parseInt(process.env.NOTIFY_DIGEST_HOUR_UTC || '0', 10),
+  NOTIFY_TIMEOUT_MS: 10000,
+  RPC_DOWN_ALERT_CYCLES: parseInt(process.env.RPC_DOWN_ALERT_CYCLES || '3', 10), // Failed monitoring cycles in a row before a chain's RPC is reported down
+
+  // Swap simulation configuration
+  TICK_BITMAP_WORDS: 2, // Tick bitmap words loaded on each side of the current tick, at most
+  TICK_RANGE_BPS: parseFloat(process.env.TICK_RANGE_BPS || '1000'), // Price move either way a trade can reach: ticks beyond it aren't loaded
 };
 
-// Sonic chain configuration
-const sonicChain = {
-  id: 1001, // Sonic mainnet chain ID
-  name: 'Sonic',
-  network: 'sonic',
+// Chainlink <asset>/USD feed with its health checks and optional DEX TWAP cross-check
+export interface PriceFeedConfig {
+  address: string;
+  maxStalenessSec?: number;  // Reject answers older than this (the feed's heartbeat plus margin, default 3600)
+  minPrice?: number;         // Sanity bounds on the answer
+  maxPrice?: number;
+  twapPool?: string;         // Uniswap V3 style pool of the asset against a registered stablecoin
+  twapQuote?: string;        // Registry symbol of the pool's stablecoin side, the token the TWAP is quoted in (required with twapPool)
+  twapWindowSec?: number;    // Default 1800
+  maxDeviationBps?: number;  // Largest allowed gap between Chainlink and the TWAP (default 200)
+}
+
+// Chain configuration as declared in config/chains.json
+export interface ChainConfig {
+  id: number;
+  name: string;
   nativeCurrency: {
-    decimals: 18,
-    name: 'Sonic',
-    symbol: 'S',
-  },
-  rpcUrls: {
-    default: { http: [CONFIG.SONIC_RPC] },
-    public: { http: [CONFIG.SONIC_RPC] },
-  },
-};
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  rpcUrl: string;   // May reference environment variables as ${NAME}
+  wsUrl?: string;
+  nativeUsdFeed?: string; // Chainlink <native>/USD feed (shorthand for a priceFeeds entry with default checks)
+  priceFeeds?: Record<string, PriceFeedConfig>; // USD price feeds by asset symbol
+  inventoryTargets?: Record<string, number>; // Relative weight of each stablecoin held on this chain when rebalancing (default 1 each)
+  gasLimits: {       // Fallbacks for steps whose gas can't be estimated on chain
+    swap: number;
+    approve?: number;
+    bridge?: number;
+  };
+}
 
-// Create viem clients for different chains
-export const clients: Record<string, PublicClient> = {
-  avalanche: createPublicClient({
-    chain: avalanche,
-    transport: http(CONFIG.AVALANCHE_RPC),
-  }),
-  sonic: createPublicClient({
-    chain: sonicChain,
-    transport: http(CONFIG.SONIC_RPC),
-  }),
-};
+// Replace ${NAME} placeholders with environment variables
+function interpolateEnv(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '');
+}
 
-// WebSocket clients for real-time data
-export const wsClients: Record<string, PublicClient> = {
-  avalanche: createPublicClient({
-    chain: avalanche,
-    transport: webSocket(CONFIG.AVALANCHE_WS),
-  }),
-  sonic: createPublicClient({
-    chain: sonicChain,
-    transport: webSocket(CONFIG.SONIC_WS),
-  }),
-};
+function loadChainConfigs(filePath: string): Record<string, ChainConfig> {
+  let parsed: Record<string, ChainConfig>;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read chain configuration at ${filePath}: ${error}`);
+  }
+
+  for (const [chainName, chain] of Object.entries(parsed)) {
+    if (!Number.isInteger(chain.id) || !chain.name || !chain.nativeCurrency?.symbol || !chain.rpcUrl || !chain.gasLimits?.swap) {
+      throw new Error(`Invalid chain configuration for ${chainName}: id, name, nativeCurrency, rpcUrl and gasLimits.swap are required`);
+    }
+    chain.rpcUrl = interpolateEnv(chain.rpcUrl);
+    chain.wsUrl = chain.wsUrl && interpolateEnv(chain.wsUrl);
+  }
+
+  return parsed;
+}
+
+export const CHAIN_CONFIGS = loadChainConfigs(CONFIG.CHAINS_PATH);
+
+// Multicall3, deployed at the same address on every chain we trade (and on forks of them)
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Build a viem chain definition from config
+function toViemChain(chainName: string, chain: ChainConfig): Chain {
+  return defineChain({
+    id: chain.id,
+    name: chain.name,
+    network: chainName,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: {
+      default: { http: [chain.rpcUrl], ...(chain.wsUrl && { webSocket: [chain.wsUrl] }) },
+    },
+    contracts: {
+      multicall3: { address: MULTICALL3_ADDRESS },
+    },
+  });
+}
+
+const viemChains: Record<string, Chain> = Object.fromEntries(
+  Object.entries(CHAIN_CONFIGS).map(([chainName, chain]) => [chainName, toViemChain(chainName, chain)])
+);
+
+// Create viem clients for every configured chain
+export const clients: Record<string, PublicClient> = Object.fromEntries(
+  Object.entries(CHAIN_CONFIGS).map(([chainName, chain]) => [
+    chainName,
+    createPublicClient({
+      chain: viemChains[chainName],
+      transport: http(chain.rpcUrl),
+    }) as PublicClient,
+  ])
+);
+
+// WebSocket clients for real-time data (chains without a wsUrl are skipped)
+export const wsClients: Record<string, PublicClient> = Object.fromEntries(
+  Object.entries(CHAIN_CONFIGS)
+    .filter(([, chain]) => chain.wsUrl)
+    .map(([chainName, chain]) => [
+      chainName,
+      createPublicClient({
+        chain: viemChains[chainName],
+        transport: webSocket(chain.wsUrl),
+      }) as PublicClient,
+    ])
+);
+
+// Wallet clients for live execution (only when PRIVATE_KEY is set)
+const account = process.env.PRIVATE_KEY ? privateKeyToAccount(process.env.PRIVATE_KEY as `0x${string}`) : undefined;
+
+export const walletClients: Record<string, WalletClient> = account
+  ? Object.fromEntries(
+    Object.entries(CHAIN_CONFIGS).map(([chainName, chain]) => [
+      chainName,
+      createWalletClient({
+        account,
+        chain: viemChains[chainName],
+        transport: http(chain.rpcUrl),
+      }),
+    ])
+  )
+  : {};
 
 // Export chain names for easy access
-export const CHAIN_NAMES = ['avalanche', 'sonic'] as const;
-export type ChainName = typeof CHAIN_NAMES[number];
+export const CHAIN_NAMES: readonly string[] = Object.keys(CHAIN_CONFIGS);
+export type ChainName = string;
 
 // Export configuration for use in other modules
-export { CONFIG };
\ No newline at end of file
+export { CONFIG };
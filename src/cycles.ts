@@ -0,0 +1,141 @@
+import { CONFIG } from './clients';
+import { quoteSwap, type SwapQuote } from './getters';
+import { getBestBridgeQuote, getBridgeAdapters, type BridgeQuote } from './bridges';
+import { getRegistry, getRegisteredPools, getRegisteredChains } from './registry';
+
+// One swap of a cycle, through a registered pool
+export interface CycleSwap {
+  pool: string;
+  chain: string;
+  tokenIn: string;
+  tokenOut: string;
+}
+
+// A route that ends with the token it starts with: swaps on the source chain, then optionally a bridge and
+// more swaps on the target chain
+export interface Cycle {
+  id: string; // Readable path, unique per cycle
+  startToken: string;
+  sourceChain: string;
+  targetChain: string; // Same as sourceChain for same-chain cycles
+  sourceSwaps: CycleSwap[];
+  bridgeToken?: string; // Token carried between the chains
+  targetSwaps: CycleSwap[];
+}
+
+// Simulated fills of every swap of a cycle for one input amount
+export interface CycleQuote {
+  legs: SwapQuote[];
+  bridge: BridgeQuote | null;
+  bridgedAmount: number; // Output of the source swaps
+  amountOut: number;
+}
+
+function describeCycle(cycle: Omit<Cycle, 'id'>): string {
+  const path = (swaps: CycleSwap[]) => swaps.map(swap => ` →[${swap.pool}] ${swap.tokenOut}`).join('');
+  const bridge = cycle.bridgeToken ? ` ⇢ ${cycle.targetChain}` : '';
+  return `${cycle.startToken}@${cycle.sourceChain}${path(cycle.sourceSwaps)}${bridge}${path(cycle.targetSwaps)}`;
+}
+
+// Enough to be worth checking: same-chain cycles need two pools, and cross-chain cycles with a single swap
+// on each side are already covered by the pool pair check
+function isCheckedCycle(cycle: Omit<Cycle, 'id'>): boolean {
+  if (!cycle.bridgeToken) {
+    return cycle.sourceSwaps.length >= 2;
+  }
+  return cycle.sourceSwaps.length + cycle.targetSwaps.length > 2;
+}
+
+// Every cycle through the registered pools of at most maxHops hops (each swap and the bridge count as one),
+// bridging at most once. Each cycle ends as soon as it's back to its start token
+export function findCycles(maxHops: number = CONFIG.MAX_ROUTE_HOPS): Cycle[] {
+  const pools = getRegisteredPools();
+  const chains = getRegisteredChains();
+  const bridges = getBridgeAdapters();
+  const cycles: Cycle[] = [];
+
+  const extend = (cycle: Omit<Cycle, 'id'>, chain: string, token: string, usedPools: string[]): void => {
+    const swaps = cycle.sourceSwaps.length + cycle.targetSwaps.length;
+
+    if (swaps > 0 && token === cycle.startToken) {
+      if (isCheckedCycle(cycle)) {
+        cycles.push({ id: describeCycle(cycle), ...cycle });
+      }
+      return;
+    }
+    if (swaps + (cycle.bridgeToken ? 1 : 0) >= maxHops) {
+      return;
+    }
+
+    for (const pool of pools) {
+      if (pool.chain !== chain || usedPools.includes(pool.id) || !pool.tokens.includes(token)) continue;
+
+      const swap: CycleSwap = { pool: pool.id, chain, tokenIn: token, tokenOut: pool.tokens.find(other => other !== token)! };
+      const next = cycle.bridgeToken
+        ? { ...cycle, targetSwaps: [...cycle.targetSwaps, swap] }
+        : { ...cycle, sourceSwaps: [...cycle.sourceSwaps, swap] };
+      extend(next, chain, swap.tokenOut, [...usedPools, pool.id]);
+    }
+
+    // Bridge once, after at least one swap on the source chain
+    if (!cycle.bridgeToken && cycle.sourceSwaps.length > 0) {
+      for (const toChain of chains) {
+        if (toChain !== chain && bridges.some(bridge => bridge.supports(token, chain, toChain))) {
+          extend({ ...cycle, bridgeToken: token, targetChain: toChain }, toChain, token, usedPools);
+        }
+      }
+    }
+  };
+
+  for (const chain of chains) {
+    for (const token of Object.keys(getRegistry().chains[chain]?.tokens ?? {})) {
+      extend({ startToken: token, sourceChain: chain, targetChain: chain, sourceSwaps: [], targetSwaps: [] }, chain, token, []);
+    }
+  }
+
+  return cycles;
+}
+
+// Pools swapped through by a cycle, in order
+export function getCyclePools(cycle: Cycle): string[] {
+  return [...cycle.sourceSwaps, ...cycle.targetSwaps].map(swap => swap.pool);
+}
+
+// Cheapest bridge for the amount the source swaps carry across (0 for same-chain cycles), or null if none can
+export function getCycleBridgeFee(cycle: Cycle, legs: SwapQuote[]): number | null {
+  if (!cycle.bridgeToken) {
+    return 0;
+  }
+  const bridgedAmount = legs[cycle.sourceSwaps.length - 1].amountOut;
+  return getBestBridgeQuote(cycle.bridgeToken, cycle.sourceChain, cycle.targetChain, bridgedAmount)?.feeUSD ?? null;
+}
+
+// Fill a cycle's swaps one after the other against the simulated pools; throws if any swap can't be filled
+// or the bridge can't carry the amount
+export function quoteCycle(cycle: Cycle, amountIn: number): CycleQuote {
+  const legs: SwapQuote[] = [];
+  let amount = amountIn;
+
+  const fill = (swaps: CycleSwap[]) => {
+    for (const swap of swaps) {
+      const leg = quoteSwap(swap.pool, swap.tokenIn, amount);
+      legs.push(leg);
+      amount = leg.amountOut;
+    }
+  };
+
+  fill(cycle.sourceSwaps);
+  const bridgedAmount = amount;
+
+  let bridge: BridgeQuote | null = null;
+  if (cycle.bridgeToken) {
+    bridge = getBestBridgeQuote(cycle.bridgeToken, cycle.sourceChain, cycle.targetChain, bridgedAmount);
+    if (!bridge) {
+      throw new Error(`no bridge route for ${bridgedAmount.toFixed(4)} ${cycle.bridgeToken} from ${cycle.sourceChain} to ${cycle.targetChain}`);
+    }
+  }
+
+  fill(cycle.targetSwaps);
+
+  return { legs, bridge, bridgedAmount, amountOut: amount };
+}
@@ -0,0 +1,231 @@
+import { CONFIG, CHAIN_CONFIGS } from './clients';
+import { log, now } from './utils';
+import { addLogSink, removeStdoutSink, type LogEntry } from './logger';
+import { lastPrices, gasCosts, priceHealth, poolStates } from './getters';
+import {
+  paperTrades,
+  latestDecisions,
+  loopStats,
+  getPaperChains,
+  getPaperBalance,
+  getInTransitBalance,
+  getPaperTradingStats,
+  type ArbitrageDecision,
+  type PaperTrade,
+} from './arbitrage';
+import { getCrossChainSpreads } from './metrics';
+import { getTokenValueUSD } from './valuation';
+import { getKillSwitchReason } from './risk';
+import { depegBreaker } from './depeg';
+import { getExecutionBackend } from './execution';
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+const RECENT_WARNINGS = 5;
+const BLOTTER_TRADES = 8;
+
+const ANSI = {
+  altScreenOn: '\x1b[?1049h',
+  altScreenOff: '\x1b[?1049l',
+  hideCursor: '\x1b[?25l',
+  showCursor: '\x1b[?25h',
+  wrapOff: '\x1b[?7l', // Long lines are clipped at the edge instead of wrapping
+  wrapOn: '\x1b[?7h',
+  home: '\x1b[H',
+  clearLine: '\x1b[K',
+  clearDown: '\x1b[J',
+  bold: (text: string) => `\x1b[1m${text}\x1b[0m`,
+  dim: (text: string) => `\x1b[2m${text}\x1b[0m`,
+  green: (text: string) => `\x1b[32m${text}\x1b[0m`,
+  red: (text: string) => `\x1b[31m${text}\x1b[0m`,
+  yellow: (text: string) => `\x1b[33m${text}\x1b[0m`,
+};
+
+// Samples of a value over time, one per update of the state behind it
+interface History {
+  values: number[];
+  lastTimestamp: number;
+}
+
+const histories: Record<string, History> = {};
+const recentWarnings: LogEntry[] = [];
+
+function recordSample(key: string, value: number, timestamp: number): number[] {
+  const history = histories[key] ??= { values: [], lastTimestamp: 0 };
+  if (timestamp > history.lastTimestamp) {
+    history.values.push(value);
+    history.values.splice(0, history.values.length - CONFIG.TUI_HISTORY_POINTS);
+    history.lastTimestamp = timestamp;
+  }
+  return history.values;
+}
+
+function sparkline(values: number[]): string {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values.map(value => {
+    const level = max === min ? 3 : Math.round((value - min) / (max - min) * (SPARK_CHARS.length - 1));
+    return SPARK_CHARS[level];
+  }).join('');
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 120 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
+
+function formatUSD(value: number): string {
+  const text = `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+  return value > 0 ? ANSI.green(text) : value < 0 ? ANSI.red(text) : text;
+}
+
+function pad(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text.padEnd(width);
+}
+
+function section(title: string): string {
+  return ANSI.bold(`── ${title} ${'─'.repeat(Math.max(0, 60 - title.length))}`);
+}
+
+function renderHeader(): string[] {
+  const killSwitch = getKillSwitchReason();
+  const trading = killSwitch
+    ? ANSI.red(`PAUSED (${killSwitch})`)
+    : depegBreaker.tripped ? ANSI.red('HALTED (depeg breaker)') : ANSI.green('active');
+  const lastCheck = loopStats.lastCheckAt
+    ? `last check ${formatAge(now() - loopStats.lastCheckAt)} ago (${loopStats.lastCheckDurationMs}ms)`
+    : 'no check yet';
+  return [
+    `${ANSI.bold('Cross-chain arbitrage')}  ${getExecutionBackend().mode} · trading ${trading} · ${loopStats.cycles} cycles · ${loopStats.checks} checks · ${lastCheck}`,
+    ANSI.dim(new Date(now()).toISOString()),
+  ];
+}
+
+function renderPools(): string[] {
+  const lines = [section('Pools')];
+  for (const [pool, price] of Object.entries(lastPrices)) {
+    const metadata = poolStates[pool]?.metadata;
+    if (!metadata) continue;
+    const history = recordSample(`price:${pool}`, price.tokens1PerToken0, price.timestamp);
+    lines.push(`${pad(pool, 32)} ${pad(metadata.chain, 10)} ${price.tokens1PerToken0.toFixed(6).padStart(14)} ${pad(`${metadata.token1.canonical}/${metadata.token0.canonical}`, 10)} ${sparkline(history)} ${ANSI.dim(formatAge(now() - price.timestamp))}`);
+  }
+  return lines;
+}
+
+function renderSpreads(): string[] {
+  const lines = [section('Cross-chain spreads')];
+  for (const spread of getCrossChainSpreads()) {
+    const history = recordSample(`spread:${spread.poolA}:${spread.poolB}`, spread.spreadBps, spread.timestamp);
+    lines.push(`${pad(`${spread.poolA} / ${spread.poolB}`, 54)} ${`${spread.spreadBps >= 0 ? '+' : ''}${spread.spreadBps.toFixed(2)} bps`.padStart(12)} ${sparkline(history)}`);
+  }
+  return lines;
+}
+
+function renderGas(): string[] {
+  const cells = Object.entries(gasCosts).map(([chain, gas]) => {
+    const { symbol, decimals } = CHAIN_CONFIGS[chain].nativeCurrency;
+    const health = priceHealth[`${chain}-${symbol}`];
+    const native = Number(gas.totalCost) / 10 ** decimals;
+    return `${chain} ${health?.status === 'ok' ? `$${(native * health.price!).toFixed(4)}` : `${native.toFixed(6)} ${symbol}`}/route`;
+  });
+  return [section('Gas'), cells.join('   ')];
+}
+
+function renderBalances(): string[] {
+  const lines = [section('Balances')];
+  for (const chain of getPaperChains()) {
+    const tokens = getPaperBalance(chain).tokens;
+    const inTransit = getInTransitBalance(chain);
+    const value = [...Object.entries(tokens), ...Object.entries(inTransit)]
+      .reduce((sum, [token, amount]) => sum + getTokenValueUSD(chain, token, amount), 0);
+    const held = Object.entries(tokens).map(([token, amount]) => `${token} ${amount.toFixed(2)}`).join('  ');
+    const transit = Object.entries(inTransit).map(([token, amount]) => `${token} ${amount.toFixed(2)}`).join(', ');
+    lines.push(`${pad(chain, 12)} ${pad(held, 44)} ${transit ? ANSI.yellow(`in transit: ${transit}  `) : ''}$${value.toFixed(2)}`);
+  }
+
+  const stats = getPaperTradingStats();
+  lines.push(`Total $${stats.totalValue.toFixed(2)} · P&L ${formatUSD(stats.totalProfit)} · ${stats.totalTrades} settled (${stats.winRate.toFixed(1)}% won) · ${stats.pendingTrades} pending · ${stats.rebalances} rebalances ($${stats.rebalanceCost.toFixed(2)})`);
+  return lines;
+}
+
+function formatDecision(decision: ArbitrageDecision): string {
+  const action = decision.action === 'trade' ? ANSI.green('TRADE') : ANSI.dim('skip ');
+  const route = decision.cycle ?? `${decision.buyPool} → ${decision.sellPool}`;
+  const net = decision.netProfit !== undefined ? ` net ${formatUSD(decision.netProfit)}` : '';
+  return `${action} ${pad(decision.strategy, 16)} ${pad(route, 48)} ${decision.reason}${net}`;
+}
+
+function renderDecisions(): string[] {
+  return [section('Latest decisions'), ...latestDecisions.map(formatDecision)];
+}
+
+function formatTrade(trade: PaperTrade): string {
+  const time = new Date(trade.timestamp).toISOString().slice(11, 19);
+  const status = trade.status === 'failed' ? ANSI.red(trade.status) : trade.status === 'pending' ? ANSI.yellow(trade.status) : trade.status;
+  const route = `${trade.sourceChain} → ${trade.targetChain}`;
+  return `${time} ${pad(trade.id, 30)} ${pad(route, 22)} ${`${trade.amount.toFixed(2)} ${trade.token ?? ''}`.padEnd(16)} net ${formatUSD(trade.netProfit)} ${status}`;
+}
+
+function renderBlotter(): string[] {
+  return [section('Trades'), ...paperTrades.slice(-BLOTTER_TRADES).reverse().map(formatTrade)];
+}
+
+function renderWarnings(): string[] {
+  if (recentWarnings.length === 0) return [];
+  return [section('Warnings'), ...recentWarnings.map(entry => {
+    const line = `${entry.time.slice(11, 19)} ${entry.msg}`;
+    return entry.level === 'error' ? ANSI.red(line) : ANSI.yellow(line);
+  })];
+}
+
+// Every panel, cut to the terminal's height
+function renderDashboard(): string {
+  const lines = [
+    ...renderHeader(),
+    ...renderPools(),
+    ...renderSpreads(),
+    ...renderGas(),
+    ...renderBalances(),
+    ...renderDecisions(),
+    ...renderBlotter(),
+    ...renderWarnings(),
+  ];
+  return lines.slice(0, process.stdout.rows || lines.length).join('\n');
+}
+
+// Take over the terminal with a dashboard redrawn every TUI_REFRESH_MS from the state the loop updates.
+// Log entries stop going to stdout (other sinks keep them); warnings and errors show in their own panel.
+// Returns false, leaving plain logging in place, when stdout isn't a TTY
+export function startDashboard(): boolean {
+  if (!process.stdout.isTTY) {
+    log('stdout is not a TTY, dashboard disabled: logging as usual', 'warn');
+    return false;
+  }
+
+  addLogSink({
+    write(entry) {
+      if (entry.level === 'warn' || entry.level === 'error') {
+        recentWarnings.push(entry);
+        recentWarnings.splice(0, recentWarnings.length - RECENT_WARNINGS);
+      }
+    },
+  });
+  removeStdoutSink();
+
+  // Redraw in place: each line overwrites the previous frame's, then whatever is left below is cleared
+  const draw = () => {
+    try {
+      const frame = renderDashboard().split('\n').map(line => line + ANSI.clearLine).join('\n');
+      process.stdout.write(ANSI.home + frame + '\n' + ANSI.clearDown);
+    } catch (error) {
+      log(`Dashboard render failed: ${error}`, 'error');
+    }
+  };
+
+  process.stdout.write(ANSI.altScreenOn + ANSI.hideCursor + ANSI.wrapOff);
+  process.on('exit', () => process.stdout.write(ANSI.wrapOn + ANSI.showCursor + ANSI.altScreenOff));
+  process.stdout.on('resize', draw);
+
+  setInterval(draw, CONFIG.TUI_REFRESH_MS).unref();
+  draw();
+  return true;
+}
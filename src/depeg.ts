@@ -0,0 +1,130 @@
+import { CONFIG } from './clients';
+import { log, now } from './utils';
+import { getUSDPrice, lastPrices, type PoolMetadata } from './getters';
+import { findPriceFeedChain } from './oracles';
+import { getRegisteredChains } from './registry';
+import { emitAlert } from './alerts';
+
+export const STABLECOINS = ['USDC', 'USDT'] as const;
+export type Stablecoin = typeof STABLECOINS[number];
+
+export function isStablecoin(token: string): token is Stablecoin {
+  return (STABLECOINS as readonly string[]).includes(token);
+}
+
+// Circuit breaker state: while tripped no new trades are opened (bridged second legs still settle)
+export interface DepegBreakerState {
+  tripped: boolean;
+  reasons: string[];
+  trippedAt?: number;
+  clearSince?: number; // When the conditions last became clear, for the recovery cooldown
+}
+
+export const depegBreaker: DepegBreakerState = { tripped: false, reasons: [] };
+
+// Last healthy USD price of each stablecoin per chain, used to value balances
+const stablecoinPrices: Record<string, Partial<Record<Stablecoin, number>>> = {};
+
+// Fetch every stablecoin's USD price on every chain; returns why any couldn't be priced, by chain and token
+export async function refreshStablecoinPrices(): Promise<Map<string, string>> {
+  const unavailable = new Map<string, string>();
+
+  for (const chain of getRegisteredChains()) {
+    for (const token of STABLECOINS) {
+      const feedChain = findPriceFeedChain(chain, token);
+      if (!feedChain) {
+        unavailable.set(`${chain}:${token}`, `no ${token}/USD feed configured`);
+        continue;
+      }
+
+      try {
+        (stablecoinPrices[chain] ??= {})[token] = await getUSDPrice(feedChain, token);
+      } catch (error) {
+        unavailable.set(`${chain}:${token}`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  return unavailable;
+}
+
+// USD value of one unit of a stablecoin on a chain (par until its feed has been read)
+export function getStablecoinValue(chain: string, token: Stablecoin): number {
+  return stablecoinPrices[chain]?.[token] ?? 1;
+}
+
+// USDC per USDT implied by a pool's last price
+function getUsdcPerUsdt(pool: PoolMetadata): number | undefined {
+  const price = lastPrices[pool.id];
+  if (!price) {
+    return undefined;
+  }
+  return pool.token1.canonical === 'USDT' ? price.tokens0PerToken1 : price.tokens1PerToken0;
+}
+
+// Conditions that should halt trading right now, keyed so an ongoing condition isn't re-alerted as its numbers move
+function findDepegConditions(pairs: Array<[PoolMetadata, PoolMetadata]>, unavailable: Map<string, string>): Map<string, string> {
+  const conditions = new Map([...unavailable].map(([key, reason]) => [`unavailable:${key}`, `stablecoin price unavailable on ${key.split(':')[0]}: ${reason}`]));
+  const band = CONFIG.DEPEG_BAND_BPS / 10000;
+
+  for (const [chain, prices] of Object.entries(stablecoinPrices)) {
+    for (const [token, price] of Object.entries(prices)) {
+      if (Math.abs(price - 1) > band) {
+        conditions.set(`band:${chain}:${token}`, `${token} on ${chain} at $${price.toFixed(4)}, outside the ±${CONFIG.DEPEG_BAND_BPS} bps band`);
+      }
+    }
+  }
+
+  for (const [poolA, poolB] of pairs) {
+    const priceA = getUsdcPerUsdt(poolA);
+    const priceB = getUsdcPerUsdt(poolB);
+    if (priceA === undefined || priceB === undefined) continue;
+
+    const disagreementBps = Math.abs(priceA - priceB) / Math.min(priceA, priceB) * 10000;
+    if (disagreementBps > CONFIG.MAX_POOL_DISAGREEMENT_BPS) {
+      conditions.set(`disagreement:${poolA.id}:${poolB.id}`, `${poolA.id} and ${poolB.id} disagree by ${disagreementBps.toFixed(0)} bps (${priceA.toFixed(6)} vs ${priceB.toFixed(6)} USDC/USDT, max ${CONFIG.MAX_POOL_DISAGREEMENT_BPS})`);
+    }
+  }
+
+  return conditions;
+}
+
+// Keys of the conditions behind the current trip
+let trippedConditions = new Set<string>();
+
+// Update the breaker from the prices refreshStablecoinPrices last read (and the ones it couldn't). Trips (with an
+// alert) as soon as any condition holds, and only resets once the conditions have stayed clear for DEPEG_RECOVERY_MS.
+// Returns whether trading is halted.
+export function updateDepegBreaker(pairs: Array<[PoolMetadata, PoolMetadata]>, unavailable: Map<string, string>): boolean {
+  if (!CONFIG.DEPEG_BREAKER) {
+    return false;
+  }
+
+  const conditions = findDepegConditions(pairs, unavailable);
+  const reasons = [...conditions.values()];
+  const currentTime = now();
+
+  if (conditions.size > 0) {
+    if ([...conditions.keys()].some(key => !trippedConditions.has(key))) {
+      emitAlert({ type: 'depeg-breaker', severity: 'critical', message: `Depeg circuit breaker tripped, new trades halted: ${reasons.join('; ')}`, details: { reasons } });
+    }
+    trippedConditions = new Set(conditions.keys());
+    Object.assign(depegBreaker, { tripped: true, reasons, trippedAt: depegBreaker.trippedAt ?? currentTime, clearSince: undefined });
+    return true;
+  }
+
+  if (!depegBreaker.tripped) {
+    return false;
+  }
+
+  depegBreaker.clearSince ??= currentTime;
+  if (currentTime - depegBreaker.clearSince < CONFIG.DEPEG_RECOVERY_MS) {
+    log(`Depeg conditions clear, breaker stays tripped for another ${Math.ceil((CONFIG.DEPEG_RECOVERY_MS - (currentTime - depegBreaker.clearSince)) / 1000)}s`, 'warn');
+    return true;
+  }
+
+  emitAlert({ type: 'depeg-breaker', severity: 'warning', message: `Depeg circuit breaker reset after ${((currentTime - depegBreaker.trippedAt!) / 60000).toFixed(1)} min, trading resumed` });
+  trippedConditions = new Set();
+  Object.assign(depegBreaker, { tripped: false, reasons: [], trippedAt: undefined, clearSince: undefined });
+  return false;
+}
@@ -0,0 +1,462 @@
+import { parseAbi, parseAbiParameters, parseEventLogs, parseUnits, formatUnits, encodeFunctionData, encodeAbiParameters, keccak256, toHex, BaseError, type StateOverride, type TransactionReceipt } from 'viem';
+import { clients, walletClients, CONFIG } from './clients';
+import { log, now } from './utils';
+import { poolStates, quoteSwap, type SwapQuote, type PoolMetadata } from './getters';
+import { getRegisteredDex, getRegisteredPools } from './registry';
+import { getPoolAdapter } from './pools';
+
+// On-chain transaction sent for a trade (bigints as decimal strings so the ledger stays JSON)
+export interface TradeTransaction {
+  chain: string;
+  kind: 'approve' | 'swap';
+  hash: string;
+  status: 'success' | 'reverted';
+  blockNumber: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+}
+
+// What actually filled for a quoted swap
+export interface SwapFill {
+  amountIn: number;
+  amountOut: number;
+  transactions: TradeTransaction[];
+}
+
+// eth_call of one leg's router swap against the latest block
+export interface LegSimulation {
+  pool: string;
+  amountIn: number;
+  quotedAmountOut: number;
+  simulatedAmountOut?: number;
+  gasUsed?: string;
+  deviationBps?: number; // Shortfall of the simulated output versus the quote
+  revertReason?: string;
+}
+
+export interface TradeSimulation {
+  passed: boolean;
+  skipped?: boolean; // No account to simulate from, so the gate was not applied
+  reason?: string;
+  legs: LegSimulation[];
+}
+
+// Pluggable trade execution (paper fills or signed transactions)
+export interface ExecutionBackend {
+  mode: 'paper' | 'live';
+  crossChain: boolean; // Whether routes that bridge between chains can run (there is no live bridge step yet)
+  // Make sure the router may spend the quote's input (so the swap can be simulated), returning any approvals sent
+  approve?(quote: SwapQuote): Promise<TradeTransaction[]>;
+  executeSwap(quote: SwapQuote): Promise<SwapFill>;
+  // Token balances actually held on a chain, keyed by registry symbol (live mode trades the wallet's holdings)
+  readBalances?(chain: string): Promise<Record<string, number>>;
+}
+
+// A swap that failed after sending transactions (approvals, the reverted swap itself): they ride on the error so
+// the trade can still be recorded with them
+type SwapError = Error & { transactions: TradeTransaction[] };
+
+export function swapError(message: string, transactions: TradeTransaction[]): SwapError {
+  return Object.assign(new Error(message), { transactions });
+}
+
+// Transactions a failed swap sent before it threw (none for errors raised before anything went out)
+export function getSentTransactions(error: unknown): TradeTransaction[] {
+  return error instanceof Error && Array.isArray((error as Partial<SwapError>).transactions) ? (error as SwapError).transactions : [];
+}
+
+const ERC20_ABI = parseAbi([
+  'function allowance(address owner, address spender) external view returns (uint256)',
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function balanceOf(address account) external view returns (uint256)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+// Fills every swap exactly as quoted against the simulated pool state
+export function createPaperBackend(): ExecutionBackend {
+  return {
+    mode: 'paper',
+    crossChain: true, // Bridge transfers are simulated and settle on the clock
+
+    async executeSwap(quote) {
+      return { amountIn: quote.amountIn, amountOut: quote.amountOut, transactions: [] };
+    },
+  };
+}
+
+function toTradeTransaction(chain: string, kind: TradeTransaction['kind'], receipt: TransactionReceipt): TradeTransaction {
+  return {
+    chain,
+    kind,
+    hash: receipt.transactionHash,
+    status: receipt.status,
+    blockNumber: receipt.blockNumber.toString(),
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+  };
+}
+
+// Router calldata for a quoted swap, built by the pool's adapter
+function buildSwapCall(quote: SwapQuote, recipient: `0x${string}`, minAmountOut: number) {
+  const pool = poolStates[quote.pool];
+  if (!pool) {
+    throw new Error(`No pool state available for ${quote.pool}`);
+  }
+
+  const { metadata, state } = pool;
+  const dex = getRegisteredDex(metadata.chain, metadata.dexName);
+  if (!dex.router) {
+    throw new Error(`No router configured for ${metadata.dexName} on ${metadata.chain} (set "router" in the registry)`);
+  }
+
+  const tokenIn = quote.tokenIn === metadata.token0.canonical ? metadata.token0 : metadata.token1;
+  const tokenOut = tokenIn === metadata.token0 ? metadata.token1 : metadata.token0;
+  const amountIn = parseUnits(quote.amountIn.toFixed(tokenIn.decimals), tokenIn.decimals);
+  const adapter = getPoolAdapter(metadata.type);
+  const data = adapter.encodeSwap(state, dex, {
+    tokenIn: tokenIn.address as `0x${string}`,
+    tokenOut: tokenOut.address as `0x${string}`,
+    recipient,
+    deadline: BigInt(Math.floor(now() / 1000) + CONFIG.SWAP_DEADLINE_SEC),
+    amountIn,
+    amountOutMinimum: parseUnits(Math.max(minAmountOut, 0).toFixed(tokenOut.decimals), tokenOut.decimals),
+  });
+
+  return { chain: metadata.chain, router: dex.router as `0x${string}`, tokenIn, tokenOut, amountIn, data, adapter };
+}
+
+// Account swaps are simulated from: the trading wallet, or SIMULATION_ACCOUNT when there is none
+export function getSimulationAccount(chain: string): `0x${string}` | undefined {
+  return walletClients[chain]?.account?.address ?? (CONFIG.SIMULATION_ACCOUNT as `0x${string}` | undefined);
+}
+
+// Solidity storage slot of a mapping entry: keccak256(key . slot)
+function mappingSlot(key: `0x${string}`, slot: bigint): `0x${string}` {
+  return keccak256(encodeAbiParameters(parseAbiParameters('address, uint256'), [key, slot]));
+}
+
+// Declaration slots of each token's balanceOf and allowance mappings, keyed by chain:token
+const tokenSlots = new Map<string, { balance: bigint; allowance: bigint }>();
+
+const MAX_PROBED_SLOT = 20n;
+const PROBE_VALUE = 0x5eed5eed5eedn;
+
+// Find the slot a token declares a mapping at by overriding each candidate until the getter reports the override
+async function findMappingSlot(
+  chain: string,
+  token: `0x${string}`,
+  entrySlot: (slot: bigint) => `0x${string}`,
+  read: (stateOverride: StateOverride) => Promise<bigint>
+): Promise<bigint> {
+  for (let slot = 0n; slot <= MAX_PROBED_SLOT; slot++) {
+    const value = await read([{ address: token, stateDiff: [{ slot: entrySlot(slot), value: toHex(PROBE_VALUE, { size: 32 }) }] }]);
+    if (value === PROBE_VALUE) {
+      return slot;
+    }
+  }
+  throw new Error(`No balance or allowance mapping found in the first ${MAX_PROBED_SLOT} storage slots of ${token} on ${chain}`);
+}
+
+// State override giving the account amount of a token, approved for the router: lets a leg be simulated on what
+// an earlier leg would have produced rather than on what the account holds now
+async function getFundingOverride(
+  chain: string,
+  token: `0x${string}`,
+  account: `0x${string}`,
+  router: `0x${string}`,
+  amount: bigint
+): Promise<StateOverride> {
+  const publicClient = clients[chain];
+  const balanceSlot = (slot: bigint) => mappingSlot(account, slot);
+  const allowanceSlot = (slot: bigint) => mappingSlot(router, BigInt(mappingSlot(account, slot)));
+
+  const key = `${chain}:${token.toLowerCase()}`;
+  let slots = tokenSlots.get(key);
+  if (!slots) {
+    slots = {
+      balance: await findMappingSlot(chain, token, balanceSlot, stateOverride =>
+        publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [account], stateOverride })),
+      allowance: await findMappingSlot(chain, token, allowanceSlot, stateOverride =>
+        publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'allowance', args: [account, router], stateOverride })),
+    };
+    tokenSlots.set(key, slots);
+  }
+
+  return [{
+    address: token,
+    stateDiff: [
+      { slot: balanceSlot(slots.balance), value: toHex(amount, { size: 32 }) },
+      { slot: allowanceSlot(slots.allowance), value: toHex(amount, { size: 32 }) },
+    ],
+  }];
+}
+
+// eth_call one leg's swap calldata (with no output floor, so the call reports what the chain would give). With
+// fundInput the account is given the input and the router's allowance for it through a state override
+export async function simulateSwap(quote: SwapQuote, fundInput: boolean = false): Promise<LegSimulation> {
+  const simulation: LegSimulation = { pool: quote.pool, amountIn: quote.amountIn, quotedAmountOut: quote.amountOut };
+  const account = getSimulationAccount(quote.chain);
+  if (!account) {
+    return { ...simulation, revertReason: 'no simulation account (set PRIVATE_KEY or SIMULATION_ACCOUNT)' };
+  }
+
+  try {
+    const { chain, router, tokenIn, tokenOut, amountIn, data, adapter } = buildSwapCall(quote, account, 0);
+    const publicClient = clients[chain];
+    const stateOverride = fundInput ? await getFundingOverride(chain, tokenIn.address as `0x${string}`, account, router, amountIn) : undefined;
+
+    const [{ data: returnData }, gasUsed] = await Promise.all([
+      publicClient.call({ account, to: router, data, blockTag: 'latest', stateOverride }),
+      publicClient.estimateGas({ account, to: router, data, blockTag: 'latest', stateOverride }),
+    ]);
+    if (!returnData) {
+      return { ...simulation, revertReason: 'empty return data' };
+    }
+
+    const amountOut = adapter.decodeAmountOut(returnData);
+    const simulatedAmountOut = Number(formatUnits(amountOut, tokenOut.decimals));
+
+    return {
+      ...simulation,
+      simulatedAmountOut,
+      gasUsed: gasUsed.toString(),
+      deviationBps: (1 - simulatedAmountOut / quote.amountOut) * 10000,
+    };
+  } catch (error) {
+    return { ...simulation, revertReason: error instanceof BaseError ? error.shortMessage : String(error) };
+  }
+}
+
+// eth_estimateGas of one leg's router swap from the simulation account
+export async function estimateSwapGas(quote: SwapQuote): Promise<bigint> {
+  const account = getSimulationAccount(quote.chain);
+  if (!account) {
+    throw new Error(`No simulation account for ${quote.chain}`);
+  }
+
+  const { chain, router, data } = buildSwapCall(quote, account, 0);
+  return clients[chain].estimateGas({ account, to: router, data });
+}
+
+// Gas for approving the router to spend one leg's input, or 0 if the current allowance already covers it
+export async function estimateApprovalGas(quote: SwapQuote): Promise<bigint> {
+  const account = getSimulationAccount(quote.chain);
+  if (!account) {
+    throw new Error(`No simulation account for ${quote.chain}`);
+  }
+
+  const { chain, router, tokenIn, amountIn } = buildSwapCall(quote, account, 0);
+  const publicClient = clients[chain];
+  const allowance = await publicClient.readContract({
+    address: tokenIn.address as `0x${string}`,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [account, router],
+  });
+  if (allowance >= amountIn) {
+    return 0n;
+  }
+
+  return publicClient.estimateGas({
+    account,
+    to: tokenIn.address as `0x${string}`,
+    data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [router, amountIn] }),
+  });
+}
+
+let warnedNoSimulationAccount = false;
+
+// Simulate the legs in order, each on the previous one's simulated output; the trade passes only if none reverts or
+// falls short of its quote by more than the tolerance. Without an account to simulate from the trade is flagged
+// as unsimulated rather than gated
+export async function simulateTrade(quotes: SwapQuote[]): Promise<TradeSimulation> {
+  const unsimulated = quotes.filter(quote => !getSimulationAccount(quote.chain)).map(quote => quote.chain);
+  if (unsimulated.length > 0) {
+    if (!warnedNoSimulationAccount) {
+      log(`No simulation account for ${[...new Set(unsimulated)].join(', ')}: trades are not simulated (set PRIVATE_KEY or SIMULATION_ACCOUNT)`, 'warn');
+      warnedNoSimulationAccount = true;
+    }
+    return { passed: true, skipped: true, reason: 'no simulation account', legs: [] };
+  }
+
+  const legs: LegSimulation[] = [];
+  let previous: { quote: SwapQuote; simulatedAmountOut: number } | undefined;
+
+  for (const quoted of quotes) {
+    let quote = quoted;
+    if (previous) {
+      // Spend what the previous leg would actually give, scaled the way the quote carried it over (e.g. less a bridge fee)
+      const amountIn = quoted.amountIn * previous.simulatedAmountOut / previous.quote.amountOut;
+      try {
+        quote = quoteSwap(quoted.pool, quoted.tokenIn, amountIn);
+      } catch (error) {
+        return { passed: false, reason: `simulation of ${quoted.pool} failed: ${error}`, legs };
+      }
+    }
+
+    // The first leg spends what the account holds; later legs spend tokens it only holds once the earlier ones fill
+    const leg = await simulateSwap(quote, previous !== undefined);
+    legs.push(leg);
+
+    if (leg.revertReason !== undefined) {
+      return { passed: false, reason: `simulation of ${leg.pool} failed: ${leg.revertReason}`, legs };
+    }
+    if (leg.deviationBps! > CONFIG.SIMULATION_TOLERANCE_BPS) {
+      return { passed: false, reason: `simulated output on ${leg.pool} is ${leg.deviationBps!.toFixed(1)} bps below quote`, legs };
+    }
+    previous = { quote, simulatedAmountOut: leg.simulatedAmountOut! };
+  }
+
+  return { passed: true, legs };
+}
+
+// Wallet for the quote's chain (live mode only)
+function getWallet(chain: string) {
+  const walletClient = walletClients[chain];
+  if (!walletClient?.account) {
+    throw new Error(`No wallet for ${chain}: set PRIVATE_KEY to use live execution`);
+  }
+  return { walletClient, account: walletClient.account };
+}
+
+// Tokens traded by the known pools on a chain, with their on-chain address and decimals
+function getChainTokens(chain: string): Array<PoolMetadata['token0']> {
+  const tokens = new Map<string, PoolMetadata['token0']>();
+  for (const { metadata } of Object.values(poolStates)) {
+    if (metadata.chain === chain) {
+      tokens.set(metadata.token0.canonical, metadata.token0);
+      tokens.set(metadata.token1.canonical, metadata.token1);
+    }
+  }
+  return [...tokens.values()];
+}
+
+// Signs approvals and router swaps with the PRIVATE_KEY wallet. Fails at startup rather than on the first trade
+// when a registered DEX has no router to swap through
+export function createLiveBackend(): ExecutionBackend {
+  if (Object.keys(walletClients).length === 0) {
+    throw new Error('Live execution needs a wallet: set PRIVATE_KEY');
+  }
+
+  const missingRouters = getRegisteredPools()
+    .filter(pool => !getRegisteredDex(pool.chain, pool.dex).router)
+    .map(pool => `${pool.dex} on ${pool.chain}`);
+  if (missingRouters.length > 0) {
+    throw new Error(`Live execution needs a router for every registered DEX: set "router" in the registry for ${[...new Set(missingRouters)].join(', ')}`);
+  }
+
+  log('Live execution is same-chain only (there is no bridge step): cross-chain routes and rebalancing moves are skipped, only same-chain cycles trade', 'warn');
+  // A same-chain cycle needs at least two pools on its chain
+  const poolsPerChain = new Map<string, number>();
+  for (const pool of getRegisteredPools()) {
+    poolsPerChain.set(pool.chain, (poolsPerChain.get(pool.chain) ?? 0) + 1);
+  }
+  const cycleChains = [...poolsPerChain].filter(([, count]) => count >= 2).map(([chain]) => chain);
+  if (cycleChains.length === 0 || !CONFIG.MULTI_HOP_ROUTES) {
+    log(`Live execution has nothing to trade: ${CONFIG.MULTI_HOP_ROUTES ? 'no chain has two registered pools to cycle through' : 'same-chain cycles need MULTI_HOP_ROUTES=true'}`, 'warn');
+  } else {
+    log(`Live execution trades same-chain cycles on ${cycleChains.join(', ')}`);
+  }
+
+  return {
+    mode: 'live',
+    crossChain: false,
+
+    async readBalances(chain) {
+      const { account } = getWallet(chain);
+      const tokens = getChainTokens(chain);
+      const balances = await Promise.all(tokens.map(token => clients[chain].readContract({
+        address: token.address as `0x${string}`,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [account.address],
+      })));
+      return Object.fromEntries(tokens.map((token, i) => [token.canonical, Number(formatUnits(balances[i], token.decimals))]));
+    },
+
+    // Approve the router for exactly this swap if the current allowance doesn't cover it
+    async approve(quote) {
+      const { walletClient, account } = getWallet(quote.chain);
+      const publicClient = clients[quote.chain];
+      const { router, tokenIn, amountIn } = buildSwapCall(quote, account.address, 0);
+
+      const allowance = await publicClient.readContract({
+        address: tokenIn.address as `0x${string}`,
+        abi: ERC20_ABI,
+        functionName: 'allowance',
+        args: [account.address, router],
+      });
+      if (allowance >= amountIn) {
+        return [];
+      }
+
+      const approveHash = await walletClient.writeContract({
+        address: tokenIn.address as `0x${string}`,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [router, amountIn],
+        account,
+        chain: walletClient.chain,
+      });
+      const approveReceipt = await publicClient.waitForTransactionReceipt({ hash: approveHash });
+      log(`🔓 Approved ${formatUnits(amountIn, tokenIn.decimals)} ${tokenIn.symbol} for the ${quote.pool} router on ${quote.chain}: ${approveHash}`);
+
+      const transaction = toTradeTransaction(quote.chain, 'approve', approveReceipt);
+      if (approveReceipt.status !== 'success') {
+        throw swapError(`Approval ${approveHash} reverted on ${quote.chain}`, [transaction]);
+      }
+      return [transaction];
+    },
+
+    async executeSwap(quote) {
+      const { walletClient, account } = getWallet(quote.chain);
+      const publicClient = clients[quote.chain];
+      const transactions = await this.approve!(quote);
+
+      // Accept at most MAX_SLIPPAGE_BPS less than the simulator quoted
+      const { router, tokenOut, data } = buildSwapCall(quote, account.address, quote.amountOut * (1 - CONFIG.MAX_SLIPPAGE_BPS / 10000));
+
+      let swapHash: `0x${string}`;
+      let receipt: TransactionReceipt;
+      try {
+        swapHash = await walletClient.sendTransaction({
+          to: router,
+          data,
+          account,
+          chain: walletClient.chain,
+        });
+        receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+      } catch (error) {
+        // The approvals went out even though the swap didn't
+        throw swapError(`Swap on ${quote.chain} failed: ${error instanceof BaseError ? error.shortMessage : error}`, transactions);
+      }
+      transactions.push(toTradeTransaction(quote.chain, 'swap', receipt));
+      log(`📝 ${quote.chain} swap ${swapHash}: ${receipt.status} in block ${receipt.blockNumber}, gas used ${receipt.gasUsed}`);
+
+      if (receipt.status !== 'success') {
+        throw swapError(`Swap ${swapHash} reverted on ${quote.chain}`, transactions);
+      }
+
+      // Actual output is the tokenOut transfer the pool made to the wallet
+      const received = parseEventLogs({ abi: ERC20_ABI, eventName: 'Transfer', logs: receipt.logs })
+        .filter(event => event.address.toLowerCase() === tokenOut.address.toLowerCase() && event.args.to.toLowerCase() === account.address.toLowerCase())
+        .reduce((sum, event) => sum + event.args.value, 0n);
+
+      return {
+        amountIn: quote.amountIn,
+        amountOut: Number(formatUnits(received, tokenOut.decimals)),
+        transactions,
+      };
+    },
+  };
+}
+
+let executionBackend: ExecutionBackend | null = null;
+
+// Backend for the configured EXECUTION_MODE
+export function getExecutionBackend(): ExecutionBackend {
+  if (!executionBackend) {
+    executionBackend = CONFIG.EXECUTION_MODE === 'live' ? createLiveBackend() : createPaperBackend();
+  }
+  return executionBackend;
+}
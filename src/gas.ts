@@ -0,0 +1,154 @@
+import { CONFIG, CHAIN_CONFIGS, clients } from './clients';
+import { log, now } from './utils';
+import { getGasCostInUSD, setEstimatedGas, type SwapQuote } from './getters';
+import { getBridgeAdapters, type BridgeQuote } from './bridges';
+import { estimateSwapGas, estimateApprovalGas, getSimulationAccount } from './execution';
+
+// Gas units assumed for a step that can't be estimated on chain and has no limit in the chain config
+const DEFAULT_APPROVE_GAS = 60000;
+const DEFAULT_BRIDGE_GAS = 250000;
+
+export interface ChainGas {
+  approve: bigint;
+  swap: bigint;
+  bridge: bigint;
+  total: bigint;
+}
+
+// Gas units a cross-chain route spends on each chain it touches
+export interface RouteGasEstimate {
+  chains: Record<string, ChainGas>;
+  estimated: boolean; // False if any step fell back to the configured gas limits
+  timestamp: number;
+}
+
+// Route estimates by route key, reused until GAS_ESTIMATE_TTL_MS passes
+const routeGasCache: Record<string, RouteGasEstimate> = {};
+
+// The amount is part of the key: whether an approval is needed, and what the bridge send costs, depend on it
+function getRouteKey(firstLeg: SwapQuote, secondLeg: SwapQuote, bridge: BridgeQuote): string {
+  return `${firstLeg.pool}:${firstLeg.amountIn}${firstLeg.tokenIn}>${bridge.bridge}>${secondLeg.pool}:${secondLeg.tokenIn}`;
+}
+
+// Estimate one step on chain, falling back to a configured gas limit when it can't be (an estimate resolving to
+// null has nothing to estimate from)
+async function estimateStep(
+  label: string,
+  estimate: (() => Promise<bigint | null>) | null,
+  fallbackGas: number
+): Promise<{ gas: bigint; estimated: boolean }> {
+  if (!CONFIG.ESTIMATE_GAS || !estimate) {
+    return { gas: BigInt(fallbackGas), estimated: false };
+  }
+
+  try {
+    const gas = await estimate();
+    return gas === null ? { gas: BigInt(fallbackGas), estimated: false } : { gas, estimated: true };
+  } catch (error) {
+    log(`Could not estimate gas for ${label}, using ${fallbackGas}: ${error}`, 'warn');
+    return { gas: BigInt(fallbackGas), estimated: false };
+  }
+}
+
+// Approval (if the allowance is short) and router swap for one leg
+async function estimateLegGas(quote: SwapQuote): Promise<{ approve: bigint; swap: bigint; estimated: boolean }> {
+  const { gasLimits } = CHAIN_CONFIGS[quote.chain];
+  const canEstimate = getSimulationAccount(quote.chain) !== undefined;
+
+  const [approve, swap] = await Promise.all([
+    estimateStep(`${quote.tokenIn} approval on ${quote.pool}`, canEstimate ? () => estimateApprovalGas(quote) : null, gasLimits.approve ?? DEFAULT_APPROVE_GAS),
+    estimateStep(`swap on ${quote.pool}`, canEstimate ? () => estimateSwapGas(quote) : null, gasLimits.swap),
+  ]);
+
+  return { approve: approve.gas, swap: swap.gas, estimated: approve.estimated && swap.estimated };
+}
+
+// Sending the bridged token, using the adapter's calldata when it knows the bridge contracts
+async function estimateBridgeGas(bridge: BridgeQuote): Promise<{ gas: bigint; estimated: boolean }> {
+  const adapter = getBridgeAdapters().find(candidate => candidate.name === bridge.bridge);
+  const account = getSimulationAccount(bridge.fromChain);
+  const estimate = adapter?.buildTransaction && account
+    ? async () => {
+      const transaction = await adapter.buildTransaction!(bridge, account);
+      return transaction && clients[bridge.fromChain].estimateGas({ account, ...transaction });
+    }
+    : null;
+
+  return estimateStep(`${bridge.bridge} ${bridge.token} bridge from ${bridge.fromChain}`, estimate, CHAIN_CONFIGS[bridge.fromChain].gasLimits.bridge ?? DEFAULT_BRIDGE_GAS);
+}
+
+function addChainGas(chains: Record<string, ChainGas>, chain: string, gas: Omit<ChainGas, 'total'>): void {
+  const existing = chains[chain] ?? { approve: 0n, swap: 0n, bridge: 0n, total: 0n };
+  const approve = existing.approve + gas.approve;
+  const swap = existing.swap + gas.swap;
+  const bridge = existing.bridge + gas.bridge;
+  chains[chain] = { approve, swap, bridge, total: approve + swap + bridge };
+}
+
+// Gas for a round trip: first leg and bridge send on the source chain, second leg on the destination
+export async function estimateRouteGas(firstLeg: SwapQuote, secondLeg: SwapQuote, bridge: BridgeQuote): Promise<RouteGasEstimate> {
+  const key = getRouteKey(firstLeg, secondLeg, bridge);
+  const cached = routeGasCache[key];
+  if (cached && now() - cached.timestamp < CONFIG.GAS_ESTIMATE_TTL_MS) {
+    return cached;
+  }
+
+  const [first, bridgeGas, second] = await Promise.all([
+    estimateLegGas(firstLeg),
+    estimateBridgeGas(bridge),
+    estimateLegGas(secondLeg),
+  ]);
+
+  const chains: Record<string, ChainGas> = {};
+  addChainGas(chains, firstLeg.chain, { approve: first.approve, swap: first.swap, bridge: bridgeGas.gas });
+  addChainGas(chains, secondLeg.chain, { approve: second.approve, swap: second.swap, bridge: 0n });
+
+  const estimate: RouteGasEstimate = {
+    chains,
+    estimated: first.estimated && bridgeGas.estimated && second.estimated,
+    timestamp: now(),
+  };
+  routeGasCache[key] = estimate;
+
+  // Chain gas costs follow the most recently estimated route
+  for (const [chain, gas] of Object.entries(chains)) {
+    setEstimatedGas(chain, gas.total);
+    log(`⛽ ${key} on ${chain}: approve ${gas.approve} + swap ${gas.swap} + bridge ${gas.bridge} = ${gas.total} gas${estimate.estimated ? '' : ' (partly from configured limits)'}`);
+  }
+
+  return estimate;
+}
+
+// Gas for any number of swaps, each on its own pool's chain, plus an optional bridge send. Not cached,
+// and doesn't touch the chain gas costs used for pool pair arbitrage
+export async function estimatePathGas(swaps: SwapQuote[], bridge: BridgeQuote | null): Promise<RouteGasEstimate> {
+  const [bridgeGas, ...swapGas] = await Promise.all([
+    bridge ? estimateBridgeGas(bridge) : null,
+    ...swaps.map(estimateLegGas),
+  ]);
+
+  const chains: Record<string, ChainGas> = {};
+  swaps.forEach((swap, i) => addChainGas(chains, swap.chain, { approve: swapGas[i].approve, swap: swapGas[i].swap, bridge: 0n }));
+  if (bridge && bridgeGas) {
+    addChainGas(chains, bridge.fromChain, { approve: 0n, swap: 0n, bridge: bridgeGas.gas });
+  }
+
+  return {
+    chains,
+    estimated: swapGas.every(gas => gas.estimated) && (bridgeGas?.estimated ?? true),
+    timestamp: now(),
+  };
+}
+
+// Gas for an inventory move: an optional swap, then an optional bridge send, both on the source chain
+export async function estimateMoveGas(swap: SwapQuote | null, bridge: BridgeQuote | null): Promise<RouteGasEstimate> {
+  return estimatePathGas(swap ? [swap] : [], bridge);
+}
+
+// USD cost of a route's gas at each chain's current fees
+export async function getRouteGasCostUSD(estimate: RouteGasEstimate): Promise<number> {
+  const costs = await Promise.all(
+    Object.entries(estimate.chains).map(([chain, gas]) => getGasCostInUSD(chain, gas.total))
+  );
+  return costs.reduce((sum, cost) => sum + cost, 0);
+}
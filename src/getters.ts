@@ -1,317 +1,474 @@
-import { createPublicClient, http, webSocket, PublicClient, getContract, parseAbi } from 'viem';
+import { createPublicClient, http, webSocket, PublicClient, getContract, parseAbi, parseUnits, formatUnits } from 'viem';
 import { avalanche, mainnet } from 'viem/chains';
-import { clients, CONFIG } from './clients';
-import { log, withRetry } from './utils';
-
-// Price storage for each chain
+import { clients, CONFIG, CHAIN_CONFIGS } from './clients';
+import { log, withRetry, now } from './utils';
+import { getRegisteredPools, resolveTokenAlias, validatePoolTokens } from './registry';
+import { readHealthyPrice, type PriceSource } from './oracles';
+import { getPoolAdapter, isReservesState, DEFAULT_POOL_TYPE, type PoolType, type PoolState, type ExactInputResult } from './pools';
+import { emitAlert } from './alerts';
+
+// Price storage for each registered pool
 export const lastPrices: Record<string, {
   tokens0PerToken1: number;
   tokens1PerToken0: number;
   timestamp: number
 }> = {};
 
+// Latest block number seen on each chain
+export const lastBlockNumbers: Record<string, bigint> = {};
+
 // Gas cost storage for each chain
 export const gasCosts: Record<string, {
-  gasPrice: bigint;
-  estimatedGas: bigint;
+  gasPrice: bigint;              // Expected price paid per gas: base fee plus priority fee, capped at the max fee
+  maxFeePerGas?: bigint;         // EIP-1559 fees from estimateFeesPerGas (absent on legacy chains and in replays)
+  maxPriorityFeePerGas?: bigint;
+  estimatedGas: bigint;          // Gas the most recently estimated route spends on this chain
   totalCost: bigint;
   timestamp: number
 }> = {};
 
-// Chainlink Price Feed ABI (simplified for price feeds)
-const CHAINLINK_PRICE_FEED_ABI = parseAbi([
-  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
-  'function decimals() external view returns (uint8)',
-]);
+// Liquidity state storage for each registered pool (used by the swap simulator)
+export const poolStates: Record<string, {
+  metadata: PoolMetadata;
+  state: PoolState;
+}> = {};
 
-// Minimal ABI for Uniswap V3 pool contracts
-const POOL_ABI = parseAbi([
-  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
-  'function token0() external view returns (address)',
-  'function token1() external view returns (address)',
-  'function fee() external view returns (uint24)',
+// Pool events that change price or liquidity (streamed over WebSocket). Algebra pools emit the same
+// Swap, Mint and Burn events as Uniswap V3 ones, plus Fee when their dynamic fee changes
+export const POOL_EVENTS_ABI = parseAbi([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Fee(uint16 fee)',
 ]);
 
+// Reserves pools emit Sync after every change: uint112 reserves on Uniswap V2 pairs, uint256 on Solidly ones
+export const V2_SYNC_EVENT_ABI = parseAbi(['event Sync(uint112 reserve0, uint112 reserve1)']);
+export const SOLIDLY_SYNC_EVENT_ABI = parseAbi(['event Sync(uint256 reserve0, uint256 reserve1)']);
+
 // Minimal ABI for ERC20 tokens (symbol and decimals functions)
 const ERC20_ABI = parseAbi([
   'function symbol() external view returns (string)',
   'function decimals() external view returns (uint8)',
 ]);
 
-// Chainlink Price Feed addresses
-const PRICE_FEEDS: Record<string, Record<string, string>> = {
-  avalanche: {
-    AVAX: '0x0A77230d17318075983913bC2145DB16C7366156',
-  },
-  sonic: {
-    S: '0xc76dFb89fF298145b417d221B2c747d84952e01d',  // S/USD (mainnet)
-  }
-};
+// Health of each USD price, cached to avoid excessive RPC calls. An unavailable price is cached too,
+// so an oracle outage pauses trading on the chain instead of hammering the feed
+export interface PriceHealth {
+  chain: string;
+  asset: string;
+  status: 'ok' | 'unavailable';
+  price?: number;
+  source?: PriceSource;
+  reason?: string;   // Why the price is unavailable
+  timestamp: number;
+}
 
-// Cache for price feeds to avoid excessive RPC calls
-const priceCache: Record<string, { price: number; timestamp: number }> = {};
+export const priceHealth: Record<string, PriceHealth> = {};
 const CACHE_DURATION = 30000; // 30 seconds
 
 // Pool metadata structure
 export interface PoolMetadata {
+  id: string;
+  type: PoolType;
   dexName: string;
   chain: string;
   address: string;
   token0: {
     symbol: string;
+    canonical: string; // Registry symbol the on-chain symbol is an alias of
     decimals: number;
     address: string;
   };
   token1: {
     symbol: string;
+    canonical: string;
     decimals: number;
     address: string;
   };
 }
 
+// Quote for an exact-input swap, in human-readable token units
+export interface SwapQuote {
+  pool: string;
+  chain: string;
+  tokenIn: string;         // Registry (canonical) symbols, the keys balances and prices are tracked under
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  feeAmount: number;
+  spotPrice: number;       // tokenOut per tokenIn before the swap
+  executionPrice: number;  // tokenOut per tokenIn actually received
+  priceImpact: number;     // Percentage below spot, fee included
+  ticksCrossed: number;     // Always 0 for reserves pools
+  result: ExactInputResult;
+}
+
 // Pool metadata cache
 const poolMetadataCache: Record<string, PoolMetadata> = {};
 
 // Main monitoring functions
-export async function getBlockNumber(client: PublicClient, chainName: string): Promise<void> {
+// Returns whether the block number could be read
+export async function getBlockNumber(client: PublicClient, chainName: string): Promise<boolean> {
   try {
     const blockNumber = await withRetry(() => client.getBlockNumber());
-    log(`${chainName} block number: ${blockNumber}`);
-  } catch (error) {
-    log(`Failed to get ${chainName} block number: ${error}`, 'error');
-  }
-}
-
-export async function getGasPrice(client: PublicClient, chainName: string): Promise<void> {
-  try {
-    const gasPrice = await withRetry(() => client.getGasPrice());
-    log(`${chainName} gas price: ${gasPrice} wei`);
+    lastBlockNumbers[chainName] = blockNumber;
+    log(`${chainName} block number: ${blockNumber}`, 'debug', { chain: chainName });
+    return true;
   } catch (error) {
-    log(`Failed to get ${chainName} gas price: ${error}`, 'error');
+    log(`Failed to get ${chainName} block number: ${error}`, 'error', { chain: chainName });
+    return false;
   }
 }
 
 export async function getBalance(client: PublicClient, chainName: string, address: string): Promise<void> {
   try {
     const balance = await withRetry(() => client.getBalance({ address: address as `0x${string}` }));
-    log(`${chainName} balance for ${address}: ${balance} wei`);
+    log(`${chainName} balance for ${address}: ${balance} wei`, 'info', { chain: chainName });
   } catch (error) {
-    log(`Failed to get ${chainName} balance: ${error}`, 'error');
+    log(`Failed to get ${chainName} balance: ${error}`, 'error', { chain: chainName });
   }
 }
 
-// Gas cost estimation functions
-export async function estimateSwapGasCost(
+// Refresh a chain's fees: EIP-1559 fee estimate against the latest base fee, or the legacy gas price
+export async function refreshGasFees(
   client: PublicClient,
   chainName: string
 ): Promise<void> {
   try {
-    // Get current gas price
-    const gasPrice = await withRetry(() => client.getGasPrice());
-
-    // Estimate gas for a swap transaction
-    // These are typical gas estimates for swap transactions on different chains
-    const estimatedGasLimits: Record<string, bigint> = {
-      avalanche: 300000n, // ~300k gas for Avalanche swaps
-      sonic: 250000n,     // ~250k gas for Sonic swaps
-    };
+    if (!CHAIN_CONFIGS[chainName]) {
+      throw new Error(`No chain configuration for ${chainName}`);
+    }
 
-    const estimatedGas = estimatedGasLimits[chainName] || 300000n;
-    const totalCost = gasPrice * estimatedGas;
+    const block = await withRetry(() => client.getBlock());
+    if (block.baseFeePerGas === null) {
+      storeSwapGasCost(chainName, await withRetry(() => client.getGasPrice()));
+      return;
+    }
 
-    // Store the gas cost information
-    gasCosts[chainName] = {
-      gasPrice,
-      estimatedGas,
-      totalCost,
-      timestamp: Date.now()
-    };
+    const { maxFeePerGas, maxPriorityFeePerGas } = await withRetry(() => client.estimateFeesPerGas());
+    const expectedGasPrice = block.baseFeePerGas + maxPriorityFeePerGas;
+    const gasPrice = expectedGasPrice < maxFeePerGas ? expectedGasPrice : maxFeePerGas;
 
-    log(`${chainName} gas cost: ${gasPrice} wei/gas × ${estimatedGas} gas = ${totalCost} wei (${Number(totalCost) / 1e18} Native Tokens)`);
+    storeSwapGasCost(chainName, gasPrice, { maxFeePerGas, maxPriorityFeePerGas });
 
   } catch (error) {
-    log(`Failed to estimate ${chainName} swap gas cost: ${error}`, 'error');
+    log(`Failed to estimate ${chainName} gas fees: ${error}`, 'error', { chain: chainName });
   }
 }
 
-// Calculate total gas cost for arbitrage (both chains)
-export function calculateTotalArbitrageGasCost(): bigint {
-  const avalancheCost = gasCosts['avalanche']?.totalCost || 0n;
-  const sonicCost = gasCosts['sonic']?.totalCost || 0n;
-
-  const totalCost = avalancheCost + sonicCost;
-
-  log(`Total arbitrage gas cost: ${avalancheCost} + ${sonicCost} = ${totalCost} wei (${Number(totalCost) / 1e18} Native Tokens)`);
+// Store a chain's gas price, costed against the last route estimate (or the configured swap gas limit before one exists)
+export function storeSwapGasCost(
+  chainName: string,
+  gasPrice: bigint,
+  fees: { maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint } = {}
+): void {
+  const chainConfig = CHAIN_CONFIGS[chainName];
+  const estimatedGas = gasCosts[chainName]?.estimatedGas ?? BigInt(chainConfig.gasLimits.swap);
+  const totalCost = gasPrice * estimatedGas;
+
+  gasCosts[chainName] = {
+    gasPrice,
+    ...fees,
+    estimatedGas,
+    totalCost,
+    timestamp: now()
+  };
 
-  return totalCost;
+  log(`${chainName} gas cost: ${gasPrice} wei/gas × ${estimatedGas} gas = ${totalCost} wei (${Number(totalCost) / 1e18} ${chainConfig.nativeCurrency.symbol})`, 'debug', { chain: chainName });
 }
 
-// Get USD price from Chainlink price feed
-export async function getUSDPrice(chain: string, asset: string): Promise<number> {
-  try {
-    const cacheKey = `${chain}-${asset}`;
-    const now = Date.now();
-
-    // Check cache first
-    if (priceCache[cacheKey] && (now - priceCache[cacheKey].timestamp) < CACHE_DURATION) {
-      return priceCache[cacheKey].price;
-    }
-
-    const client = clients[chain];
-    const feedAddress = PRICE_FEEDS[chain]?.[asset];
+// Cost a chain's gas price against a newly estimated amount of gas
+export function setEstimatedGas(chainName: string, estimatedGas: bigint): void {
+  const gasCost = gasCosts[chainName];
+  if (!gasCost) {
+    return;
+  }
 
-    if (!feedAddress) {
-      throw new Error(`No price feed found for ${asset} on ${chain}`);
-    }
+  gasCosts[chainName] = { ...gasCost, estimatedGas, totalCost: gasCost.gasPrice * estimatedGas };
+}
 
-    const priceFeed = getContract({
-      address: feedAddress as `0x${string}`,
-      abi: CHAINLINK_PRICE_FEED_ABI,
-      client,
-    });
+// Calculate total gas cost for arbitrage (all chains with gas data)
+export function calculateTotalArbitrageGasCost(): bigint {
+  const chainCosts = Object.values(gasCosts).map(gasCost => gasCost.totalCost);
+  const totalCost = chainCosts.reduce((sum, cost) => sum + cost, 0n);
 
-    // Get latest price data
-    const [roundData, decimals] = await Promise.all([
-      priceFeed.read.latestRoundData(),
-      priceFeed.read.decimals(),
-    ]);
+  log(`Total arbitrage gas cost: ${chainCosts.join(' + ')} = ${totalCost} wei (${Number(totalCost) / 1e18} Native Tokens)`, 'debug');
 
-    // roundData is a tuple: [roundId, answer, startedAt, updatedAt, answeredInRound]
-    const price = Number(roundData[1]) / Math.pow(10, decimals);
+  return totalCost;
+}
 
-    // Cache the result
-    priceCache[cacheKey] = {
-      price,
-      timestamp: now
-    };
+// Get a health-checked USD price (Chainlink, cross-checked against a DEX TWAP where configured)
+// Throws when the price is unavailable: callers must skip trading rather than guess.
+// With a block number, reads the feeds as of that block and bypasses the cache
+export async function getUSDPrice(chain: string, asset: string, blockNumber?: bigint): Promise<number> {
+  if (blockNumber !== undefined) {
+    return (await readHealthyPrice(chain, asset, blockNumber)).price;
+  }
 
-    log(`Fetched ${asset} price on ${chain}: $${price.toFixed(2)}`);
-    return price;
+  const cacheKey = `${chain}-${asset}`;
+  const cached = priceHealth[cacheKey];
 
-  } catch (error) {
-    log(`Failed to fetch ${asset} price on ${chain}: ${error}`, 'error');
+  // Check cache first
+  if (!cached || (now() - cached.timestamp) >= CACHE_DURATION) {
+    try {
+      const { price, source } = await readHealthyPrice(chain, asset);
+      setUSDPrice(chain, asset, price, source);
+      log(`Fetched ${asset} price on ${chain}: $${price.toFixed(2)} (${source})`, 'info', { chain });
+    } catch (error) {
+      setPriceUnavailable(chain, asset, error instanceof Error ? error.message : String(error));
+    }
+  }
 
-    // Fallback to hardcoded prices if Chainlink fails
-    const fallbackPrices: Record<string, Record<string, number>> = {
-      avalanche: {
-        AVAX: 25.0,
-      },
-      sonic: {
-        S: .0,
-      }
-    };
+  const health = priceHealth[cacheKey];
+  if (health.status === 'unavailable') {
+    throw new Error(`${asset} price unavailable on ${chain}: ${health.reason}`);
+  }
+  return health.price!;
+}
 
-    const fallbackPrice = fallbackPrices[chain]?.[asset];
-    if (fallbackPrice) {
-      log(`Using fallback price for ${asset} on ${chain}: $${fallbackPrice}`, 'warn');
-      return fallbackPrice;
-    }
+// Store a USD price in the cache (also used by the backtester to replay recorded prices)
+export function setUSDPrice(chain: string, asset: string, price: number, source: PriceSource = 'chainlink'): void {
+  const previous = priceHealth[`${chain}-${asset}`];
+  if (previous?.status === 'unavailable') {
+    emitAlert({ type: 'oracle-recovered', severity: 'info', key: `${chain}-${asset}`, message: `${asset} price on ${chain} available again: $${price} (${source})` }, { chain });
+    log(`✅ ${asset} price on ${chain} available again: $${price} (${source})`, 'info', { chain });
+  }
+  priceHealth[`${chain}-${asset}`] = { chain, asset, status: 'ok', price, source, timestamp: now() };
+}
 
-    throw new Error(`No price available for ${asset} on ${chain}`);
+// Mark a USD price unavailable, which skips trading on the chain until a healthy price returns
+export function setPriceUnavailable(chain: string, asset: string, reason: string): void {
+  const previous = priceHealth[`${chain}-${asset}`];
+  if (previous?.status !== 'unavailable' || previous.reason !== reason) {
+    emitAlert({ type: 'oracle-unavailable', severity: 'critical', key: `${chain}-${asset}`, message: `⛔ ${asset} price unavailable on ${chain}, skipping trades there: ${reason}`, details: { chain, asset, reason } }, { chain });
   }
+  priceHealth[`${chain}-${asset}`] = { chain, asset, status: 'unavailable', reason, timestamp: now() };
 }
 
-// Get gas cost in USD with real-time price feeds
-export async function getGasCostInUSD(chain: string): Promise<number> {
+// Get gas cost in USD with real-time price feeds, for the given gas units or the chain's last route estimate
+export async function getGasCostInUSD(chain: string, gasUnits?: bigint): Promise<number> {
   try {
     // Use stored gas cost data if available
     const gasCost = gasCosts[chain];
     if (!gasCost) {
-      log(`No gas cost data available for ${chain}, using fallback calculation`, 'warn');
+      log(`No gas cost data available for ${chain}, using fallback calculation`, 'warn', { chain });
       return 0;
     }
 
-    const gasCostEth = Number(gasCost.totalCost) / 1e18;
+    const { nativeCurrency } = CHAIN_CONFIGS[chain];
+    const totalCost = gasUnits === undefined ? gasCost.totalCost : gasCost.gasPrice * gasUnits;
+    const gasCostEth = Number(totalCost) / Math.pow(10, nativeCurrency.decimals);
 
     // Get native token price in USD
-    const nativeToken = chain === 'avalanche' ? 'AVAX' : 'S';
+    const nativeToken = nativeCurrency.symbol;
     const nativeTokenPrice = await getUSDPrice(chain, nativeToken);
 
     const gasCostUSD = gasCostEth * nativeTokenPrice;
     return gasCostUSD;
 
   } catch (error) {
-    log(`Failed to calculate gas cost in USD for ${chain}: ${error}`, 'error');
-    return 0;
+    // No guessed gas cost: without a native price the trade can't be costed
+    log(`Failed to calculate gas cost in USD for ${chain}: ${error}`, 'error', { chain });
+    throw error;
   }
 }
 
-// Price monitoring functions for CL pools
+// Price monitoring functions for the registered pools
 export async function getPoolPrice(
   client: PublicClient,
-  chainName: string,
+  poolId: string,
   targetTokenIndex: number,
   pools: Record<string, PoolMetadata>
 ): Promise<void> {
-  // Get the pool metadata for this chain
-  const metadata = pools[chainName];
+  // Get the pool metadata for this pool
+  const metadata = pools[poolId];
   if (!metadata) {
-    throw new Error(`No pool metadata found for ${chainName}`);
+    throw new Error(`No pool metadata found for ${poolId}`);
   }
+  const chainName = metadata.chain;
 
   // CL pool price fetching logic
   const { symbol } = targetTokenIndex === 0 ? metadata.token0 : metadata.token1
-  log(`Fetching ${metadata.dexName} pool price for ${metadata.chain} at ${metadata.address} (targeting ${symbol} as token${targetTokenIndex})`);
+  log(`Fetching ${metadata.dexName} pool price for ${metadata.chain} at ${metadata.address} (targeting ${symbol} as token${targetTokenIndex})`, 'debug', { chain: chainName, pool: poolId });
 
 
   try {
-    // Implementation using Uniswap V3 ABI
-    const poolContract = getContract({ address: metadata.address as `0x${string}`, abi: POOL_ABI, client });
-
-    // Get slot0 data
-    const slot0Data = await poolContract.read.slot0();
+    // Load the full liquidity state so quotes can walk the ticks
+    const state = await getPoolState(client, metadata);
 
-    // Calculate price from sqrtPriceX96 (price of token1 in terms of token0)
-    const sqrtPriceX96 = slot0Data[0];
-    const price = calculatePriceFromSqrtPriceX96(sqrtPriceX96, metadata.token0.decimals, metadata.token1.decimals);
-
-    // Store the prices
-    const { tokens0PerToken1, tokens1PerToken0 } = lastPrices[chainName] = {
-      tokens0PerToken1: 1 / Number(price), // tokens0 per token1 (USDCs per USDT, the ticker being: USDT/USDC)
-      tokens1PerToken0: Number(price),     // tokens1 per token0 (USDTs per USDC, the ticker being: USDC/USDT)
-      timestamp: Date.now()
-    };
+    // Store the state and prices
+    const { tokens0PerToken1, tokens1PerToken0 } = setPoolState(poolId, metadata, state);
 
     // Use the correct price based on target token index
     const targetTokenPrice = targetTokenIndex === 1 ? tokens0PerToken1 : tokens1PerToken0;
     const quoteTokenSymbol = targetTokenIndex === 1 ? metadata.token0.symbol : metadata.token1.symbol;
     const targetTokenSymbol = targetTokenIndex === 1 ? metadata.token1.symbol : metadata.token0.symbol;
 
-    log(`${chainName} ${metadata.dexName} pool price: ${targetTokenPrice.toFixed(6)} ${quoteTokenSymbol}s per ${targetTokenSymbol}`);
+    log(`${chainName} ${metadata.dexName} pool price: ${targetTokenPrice.toFixed(6)} ${quoteTokenSymbol}s per ${targetTokenSymbol}`, 'info', { chain: chainName, pool: poolId });
 
   } catch (error) {
-    log(`Failed to get ${chainName} ${metadata.dexName} pool price: ${error}`, 'error');
+    log(`Failed to get ${chainName} ${metadata.dexName} pool price: ${error}`, 'error', { chain: chainName, pool: poolId });
+  }
+}
+
+// Store a pool's price of token0 in token1
+function storePoolPrice(poolId: string, price: number) {
+  return lastPrices[poolId] = {
+    tokens0PerToken1: 1 / price, // tokens0 per token1 (USDCs per USDT, the ticker being: USDT/USDC)
+    tokens1PerToken0: price,     // tokens1 per token0 (USDTs per USDC, the ticker being: USDC/USDT)
+    timestamp: now()
+  };
+}
+
+// Replace a pool's cached state and price
+export function setPoolState(poolId: string, metadata: PoolMetadata, state: PoolState) {
+  poolStates[poolId] = { metadata, state };
+  return storePoolPrice(poolId, getPoolAdapter(metadata.type).getSpotPrice(state, metadata));
+}
+
+// Apply a Swap event to the cached pool state; returns true if the price moved
+export function applySwapEvent(poolId: string, sqrtPriceX96: bigint, liquidity: bigint, tick: number): boolean {
+  const entry = poolStates[poolId];
+  if (!entry || isReservesState(entry.state)) {
+    return false; // Nothing to update until the full state has been loaded
+  }
+
+  const moved = entry.state.sqrtPriceX96 !== sqrtPriceX96;
+  entry.state.sqrtPriceX96 = sqrtPriceX96;
+  entry.state.liquidity = liquidity; // In-range liquidity after the swap
+  entry.state.tick = tick;
+  storePoolPrice(poolId, getPoolAdapter(entry.metadata.type).getSpotPrice(entry.state, entry.metadata));
+
+  return moved;
+}
+
+// Apply a Sync event to a reserves pool's cached state; returns true if the price moved
+export function applySyncEvent(poolId: string, reserve0: bigint, reserve1: bigint): boolean {
+  const entry = poolStates[poolId];
+  if (!entry || !isReservesState(entry.state)) {
+    return false;
+  }
+
+  const moved = entry.state.reserve0 * reserve1 !== entry.state.reserve1 * reserve0;
+  entry.state.reserve0 = reserve0;
+  entry.state.reserve1 = reserve1;
+  storePoolPrice(poolId, getPoolAdapter(entry.metadata.type).getSpotPrice(entry.state, entry.metadata));
+
+  return moved;
+}
+
+// Apply an Algebra pool's Fee event (its fee moves with volatility)
+export function applyFeeEvent(poolId: string, fee: number): void {
+  const entry = poolStates[poolId];
+  if (entry && !isReservesState(entry.state)) {
+    entry.state.fee = fee;
+  }
+}
+
+// Apply a Mint (positive delta) or Burn (negative delta) to the cached ticks and in-range liquidity
+export function applyLiquidityEvent(poolId: string, tickLower: number, tickUpper: number, liquidityDelta: bigint): void {
+  const entry = poolStates[poolId];
+  if (!entry || isReservesState(entry.state) || liquidityDelta === 0n) {
+    return;
+  }
+  const { state } = entry;
+
+  // Only ticks inside the loaded range are tracked; the simulator stops at its edges anyway
+  const updateTick = (tick: number, delta: bigint) => {
+    if (tick < state.minLoadedTick || tick > state.maxLoadedTick) return;
+    const liquidityNet = (state.ticks.get(tick) ?? 0n) + delta;
+    if (liquidityNet === 0n) {
+      state.ticks.delete(tick);
+    } else {
+      state.ticks.set(tick, liquidityNet);
+    }
+  };
+  updateTick(tickLower, liquidityDelta);
+  updateTick(tickUpper, -liquidityDelta);
+
+  if (state.tick >= tickLower && state.tick < tickUpper) {
+    state.liquidity += liquidityDelta;
   }
 }
 
-// Helper function to calculate price from sqrtPriceX96 (Uniswap V3)
-function calculatePriceFromSqrtPriceX96(sqrtPriceX96: bigint, token0Decimals: number = 6, token1Decimals: number = 6): number {
-  // Convert sqrtPriceX96 to price
-  // price = (sqrtPriceX96 / 2^96)^2 * 10^(token1Decimals - token0Decimals)
-  const Q96 = 2n ** 96n;
-  const price = Number(sqrtPriceX96 * sqrtPriceX96 * (10n ** BigInt(token1Decimals))) / Number(Q96 * Q96 * (10n ** BigInt(token0Decimals)));
-  return price;
+// Load the state the pool's adapter prices and quotes it from
+// (as of blockNumber when given, which needs an archive node)
+export async function getPoolState(client: PublicClient, metadata: PoolMetadata, blockNumber?: bigint): Promise<PoolState> {
+  return getPoolAdapter(metadata.type).loadState(client, metadata, blockNumber);
+}
+
+// Find a token's index in a pool by symbol, resolving registry aliases (USDC.e, USDt, ...)
+export function getTokenIndex(metadata: PoolMetadata, symbol: string): 0 | 1 {
+  const canonical = resolveTokenAlias(symbol);
+
+  if (metadata.token0.canonical === canonical) return 0;
+  if (metadata.token1.canonical === canonical) return 1;
+
+  throw new Error(`${symbol} not found in ${metadata.dexName} pool ${metadata.address}`);
 }
 
-// Get all data for a specific chain
-export async function getAllChainData(chainName: string): Promise<void> {
+// Quote an exact-input swap against the last loaded state of a pool
+export function quoteSwap(poolId: string, tokenInSymbol: string, amountIn: number): SwapQuote {
+  const pool = poolStates[poolId];
+  if (!pool) {
+    throw new Error(`No pool state available for ${poolId}`);
+  }
+
+  const { metadata, state } = pool;
+  const zeroForOne = getTokenIndex(metadata, tokenInSymbol) === 0;
+  const tokenIn = zeroForOne ? metadata.token0 : metadata.token1;
+  const tokenOut = zeroForOne ? metadata.token1 : metadata.token0;
+
+  const adapter = getPoolAdapter(metadata.type);
+  const amountInRaw = parseUnits(amountIn.toFixed(tokenIn.decimals), tokenIn.decimals);
+  const result = adapter.quoteExactInput(state, metadata, zeroForOne, amountInRaw);
+
+  if (!result.complete) {
+    throw new Error(`Swap of ${amountIn} ${tokenIn.symbol} on ${poolId} exceeds the loaded liquidity (consumed ${formatUnits(result.amountIn, tokenIn.decimals)})`);
+  }
+
+  const price1Per0 = adapter.getSpotPrice(state, metadata);
+  const spotPrice = zeroForOne ? price1Per0 : 1 / price1Per0;
+  const amountOut = Number(formatUnits(result.amountOut, tokenOut.decimals));
+  const executionPrice = amountIn > 0 ? amountOut / amountIn : spotPrice;
+
+  return {
+    pool: poolId,
+    chain: metadata.chain,
+    tokenIn: tokenIn.canonical,
+    tokenOut: tokenOut.canonical,
+    amountIn,
+    amountOut,
+    feeAmount: Number(formatUnits(result.feeAmount, tokenIn.decimals)),
+    spotPrice,
+    executionPrice,
+    priceImpact: (1 - executionPrice / spotPrice) * 100,
+    ticksCrossed: result.ticksCrossed,
+    result
+  };
+}
+
+// Get all data for a specific chain; returns whether its RPC answered
+export async function getAllChainData(chainName: string): Promise<boolean> {
   const client = clients[chainName];
   if (!client) {
-    log(`No client found for chain: ${chainName}`, 'error');
-    return;
+    log(`No client found for chain: ${chainName}`, 'error', { chain: chainName });
+    return false;
   }
 
   try {
     // Get basic chain data
-    await getBlockNumber(client, chainName);
-    await getGasPrice(client, chainName);
+    const reachable = await getBlockNumber(client, chainName);
 
-    // Get gas cost estimation
-    await estimateSwapGasCost(client, chainName);
+    // Get current fees for gas cost estimation (storeSwapGasCost logs the gas price)
+    await refreshGasFees(client, chainName);
 
-    log(`Completed data collection for ${chainName}`);
+    log(`Completed data collection for ${chainName}`, 'debug', { chain: chainName });
+    return reachable;
   } catch (error) {
-    log(`Failed to get all data for ${chainName}: ${error}`, 'error');
+    log(`Failed to get all data for ${chainName}: ${error}`, 'error', { chain: chainName });
+    return false;
   }
 }
 
@@ -320,7 +477,9 @@ export async function getPoolMetadata(
   client: PublicClient,
   chainName: string,
   dexName: string,
-  poolAddress: string
+  poolAddress: string,
+  poolId: string = `${chainName}-${poolAddress}`,
+  type: PoolType = DEFAULT_POOL_TYPE
 ): Promise<PoolMetadata> {
   // Check cache first
   const cacheKey = `${chainName}-${poolAddress}`;
@@ -329,13 +488,8 @@ export async function getPoolMetadata(
   }
 
   try {
-    const poolContract = getContract({ address: poolAddress as `0x${string}`, abi: POOL_ABI, client });
-
     // Get token addresses
-    const [token0Address, token1Address] = await Promise.all([
-      poolContract.read.token0(),
-      poolContract.read.token1(),
-    ]);
+    const [token0Address, token1Address] = await getPoolAdapter(type).readTokens(client, poolAddress as `0x${string}`);
 
     // Get token contracts
     const token0Contract = getContract({ address: token0Address, abi: ERC20_ABI, client });
@@ -350,16 +504,20 @@ export async function getPoolMetadata(
     ]);
 
     const metadata: PoolMetadata = {
+      id: poolId,
+      type,
       dexName,
       chain: chainName,
       address: poolAddress,
       token0: {
         symbol: token0Symbol,
+        canonical: resolveTokenAlias(token0Symbol),
         decimals: token0Decimals,
         address: token0Address,
       },
       token1: {
         symbol: token1Symbol,
+        canonical: resolveTokenAlias(token1Symbol),
         decimals: token1Decimals,
         address: token1Address,
       },
@@ -368,36 +526,41 @@ export async function getPoolMetadata(
     // Cache the result
     poolMetadataCache[cacheKey] = metadata;
 
-    log(`📋 Pool metadata for ${dexName}: ${token0Symbol} (${token0Address}) / ${token1Symbol} (${token1Address})`);
+    log(`📋 Pool metadata for ${dexName} (${type}): ${token0Symbol} (${token0Address}) / ${token1Symbol} (${token1Address})`, 'info', { chain: chainName, pool: poolId });
 
     return metadata;
 
   } catch (error) {
-    log(`Failed to get pool metadata for ${dexName}: ${error}`, 'error');
+    log(`Failed to get pool metadata for ${dexName}: ${error}`, 'error', { chain: chainName, pool: poolId });
     throw error;
   }
 }
 
-// Get all pool metadata
+// Seed the metadata cache (the backtester replays recorded metadata without RPC access)
+export function cachePoolMetadata(metadata: PoolMetadata): void {
+  poolMetadataCache[`${metadata.chain}-${metadata.address}`] = metadata;
+}
+
+// Get metadata for every registered pool, validated against on-chain token0()/token1()/decimals()
 export async function getAllPoolMetadata(): Promise<Record<string, PoolMetadata>> {
   try {
-    // Pool addresses
-    const PHARAOH_POOL_AVALANCHE = '0x184b487c7e811f1d9734d49e78293e00b3768079';
-    const SHADOW_POOL_SONIC = '0x9053fe060f412ad5677f934f89e07524343ee8e7';
-
-    // Get metadata for all pools
-    const [pharaohMetadata, shadowMetadata] = await Promise.all([
-      getPoolMetadata(clients.avalanche, 'Pharaoh', 'avalanche', PHARAOH_POOL_AVALANCHE),
-      getPoolMetadata(clients.sonic, 'Shadow', 'sonic', SHADOW_POOL_SONIC),
-    ]);
+    const pools = getRegisteredPools();
 
-    // Return as object keyed by chain names
-    return {
-      avalanche: pharaohMetadata,
-      sonic: shadowMetadata,
-    };
+    const metadataList = await Promise.all(pools.map(async (pool) => {
+      const client = clients[pool.chain];
+      if (!client) {
+        throw new Error(`No client configured for chain ${pool.chain} (pool ${pool.id})`);
+      }
+
+      const metadata = await getPoolMetadata(client, pool.chain, pool.dex, pool.address, pool.id, pool.type);
+      validatePoolTokens(pool, [metadata.token0, metadata.token1]);
+      return metadata;
+    }));
+
+    // Return as object keyed by registry pool id
+    return Object.fromEntries(metadataList.map(metadata => [metadata.id, metadata]));
   } catch (error) {
     log(`Failed to get all pool metadata: ${error}`, 'error');
     throw error;
   }
-}
\ No newline at end of file
+}
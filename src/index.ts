@@ -4,7 +4,17 @@ import { config } from 'dotenv';
 config();
 
 import { log, setupGracefulShutdown } from './utils';
-import { monitorChains, setupWebSocketMonitoring, monitorPrices } from './arbitrage';
+import { monitorChains, setupWebSocketMonitoring, monitorPrices, restorePaperTradingState } from './arbitrage';
+import { loadRegistry } from './registry';
+import { getAllPoolMetadata } from './getters';
+import { getExecutionBackend } from './execution';
+import { setupKillSwitch } from './risk';
+import { warnPriceFeedFallbacks } from './oracles';
+import { startMetricsServer } from './metrics';
+import { startNotifier } from './notifier';
+import { startApiServer } from './api';
+import { startDashboard } from './dashboard';
+import { CONFIG } from './clients';
 
 // Main function
 async function main(): Promise<void> {
@@ -14,6 +24,41 @@ async function main(): Promise<void> {
     // Setup graceful shutdown
     setupGracefulShutdown();
 
+    // SIGUSR2 toggles the kill switch: new trades stop, monitoring continues
+    setupKillSwitch();
+
+    // Load the pool registry and validate every pool against on-chain token data
+    loadRegistry();
+    await getAllPoolMetadata();
+
+    // Point out tokens priced with another chain's feed
+    warnPriceFeedFallbacks();
+
+    // Pick the execution backend (fails fast if live mode has no wallet)
+    const backend = getExecutionBackend();
+    log(`⚙️  Execution mode: ${backend.mode}`);
+
+    // Rebuild paper balances and trades from the ledger (--reset-ledger starts fresh)
+    restorePaperTradingState(process.argv.includes('--reset-ledger'));
+
+    // Forward alerts to the configured notification sinks (webhook, Slack, Telegram)
+    startNotifier();
+
+    // Serve Prometheus metrics when METRICS_PORT is set
+    if (CONFIG.METRICS_PORT) {
+      startMetricsServer();
+    }
+
+    // Serve the control/status API when API_PORT is set (requires API_TOKEN)
+    if (CONFIG.API_PORT) {
+      startApiServer();
+    }
+
+    // Terminal dashboard in place of the scrolling log (TUI=true or --tui; plain logging when stdout isn't a TTY)
+    if (CONFIG.TUI || process.argv.includes('--tui')) {
+      startDashboard();
+    }
+
     // Start WebSocket monitoring
     await setupWebSocketMonitoring();
 
@@ -0,0 +1,61 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync } from 'fs';
+import path from 'path';
+import { CONFIG } from './clients';
+import { log, now } from './utils';
+import type { PaperTrade, PendingTransfer, TokenBalance } from './arbitrage';
+import type { RebalanceMove } from './rebalancer';
+
+// Balance as recorded before balances were keyed by token
+export interface LegacyTokenBalance {
+  usdc: number;
+  usdt: number;
+  timestamp: number;
+}
+
+// Append-only paper trading ledger (one JSON event per line)
+export type LedgerEvent =
+  | { type: 'balance'; chain: string; balance: TokenBalance | LegacyTokenBalance }
+  | { type: 'trade'; trade: PaperTrade }
+  | { type: 'transfer'; transfer: PendingTransfer }
+  | { type: 'rebalance'; move: RebalanceMove };
+
+export function appendLedgerEvent(event: LedgerEvent): void {
+  try {
+    mkdirSync(path.dirname(CONFIG.LEDGER_PATH), { recursive: true });
+    appendFileSync(CONFIG.LEDGER_PATH, `${JSON.stringify(event)}\n`);
+  } catch (error) {
+    log(`Failed to append ${event.type} event to ledger: ${error}`, 'error');
+  }
+}
+
+// Read every event in the ledger, skipping lines that can't be parsed (e.g. a torn final write)
+export function readLedger(): LedgerEvent[] {
+  if (!existsSync(CONFIG.LEDGER_PATH)) {
+    return [];
+  }
+
+  const events: LedgerEvent[] = [];
+  const lines = readFileSync(CONFIG.LEDGER_PATH, 'utf8').split('\n');
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      log(`Skipping unreadable ledger line ${index + 1}`, 'warn');
+    }
+  });
+
+  return events;
+}
+
+// Start a fresh ledger, keeping the old one alongside it for reference
+export function resetLedger(): void {
+  if (!existsSync(CONFIG.LEDGER_PATH)) {
+    return;
+  }
+
+  const archivePath = `${CONFIG.LEDGER_PATH}.${now()}.bak`;
+  renameSync(CONFIG.LEDGER_PATH, archivePath);
+  log(`🗑️  Ledger reset, previous ledger archived to ${archivePath}`);
+}
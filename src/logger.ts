@@ -0,0 +1,124 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync } from 'fs';
+import path from 'path';
+import { CONFIG } from './clients';
+
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Context tying an entry to what it's about, so one opportunity can be followed from check to settlement
+export interface LogFields {
+  chain?: string;
+  pool?: string | string[]; // Both pools for a pool pair
+  cycleId?: string;
+  tradeId?: string;
+}
+
+export interface LogEntry extends LogFields {
+  time: string;
+  level: LogLevel;
+  msg: string;
+}
+
+// Destination for log entries
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+function formatText(entry: LogEntry): string {
+  return `[${entry.time}] [${entry.level.toUpperCase()}] ${entry.msg}`;
+}
+
+// Human-readable lines, or one JSON object per line for a log aggregator
+export function createStdoutSink(format: 'text' | 'json' = CONFIG.LOG_FORMAT): LogSink {
+  return {
+    write(entry) {
+      console.log(format === 'json' ? JSON.stringify(entry) : formatText(entry));
+    },
+  };
+}
+
+// JSON lines appended to a file, which is rotated to file.1 (file.1 to file.2, ...) once it would pass maxBytes,
+// keeping at most maxFiles rotated files
+export function createFileSink(
+  filePath: string,
+  maxBytes: number = CONFIG.LOG_FILE_MAX_BYTES,
+  maxFiles: number = CONFIG.LOG_FILE_MAX_FILES
+): LogSink {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  let size = existsSync(filePath) ? statSync(filePath).size : 0;
+
+  const rotate = () => {
+    for (let i = Math.max(maxFiles, 1) - 1; i >= 1; i--) {
+      if (existsSync(`${filePath}.${i}`)) {
+        renameSync(`${filePath}.${i}`, `${filePath}.${i + 1}`);
+      }
+    }
+    renameSync(filePath, `${filePath}.1`);
+    size = 0;
+  };
+
+  return {
+    write(entry) {
+      const line = `${JSON.stringify(entry)}\n`;
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && size + bytes > maxBytes) {
+        rotate();
+      }
+      appendFileSync(filePath, line);
+      size += bytes;
+    },
+  };
+}
+
+let sinks: LogSink[] | null = null;
+let stdoutSink: LogSink | null = null;
+
+// Sinks from the config, created on first use (after .env has been loaded)
+function getSinks(): LogSink[] {
+  if (!sinks) {
+    stdoutSink = CONFIG.LOG_STDOUT ? createStdoutSink() : null;
+    sinks = [
+      ...(stdoutSink ? [stdoutSink] : []),
+      ...(CONFIG.LOG_FILE ? [createFileSink(CONFIG.LOG_FILE)] : []),
+    ];
+  }
+  return sinks;
+}
+
+// Send entries to another destination as well
+export function addLogSink(sink: LogSink): void {
+  getSinks().push(sink);
+}
+
+// Stop writing entries to stdout (while the dashboard owns the terminal); other sinks are unaffected
+export function removeStdoutSink(): void {
+  sinks = getSinks().filter(sink => sink !== stdoutSink);
+}
+
+function levelRank(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+// Unknown LOG_LEVEL values fall back to info
+const minLevelRank = levelRank(LOG_LEVELS.includes(CONFIG.LOG_LEVEL) ? CONFIG.LOG_LEVEL : 'info');
+
+export function log(message: string, level: LogLevel = 'info', fields: LogFields = {}): void {
+  if (levelRank(level) < minLevelRank) {
+    return;
+  }
+
+  const entry: LogEntry = { time: new Date().toISOString(), level, msg: message, ...fields };
+  for (const sink of getSinks()) {
+    try {
+      sink.write(entry);
+    } catch (error) {
+      // A broken sink must never take trading down with it
+      console.error(`Log sink failed: ${error}`);
+    }
+  }
+}
+
+// log with fields attached to every entry
+export function logWith(fields: LogFields): (message: string, level?: LogLevel) => void {
+  return (message, level = 'info') => log(message, level, fields);
+}
@@ -0,0 +1,270 @@
+import { createServer, type Server } from 'http';
+import { clients, CONFIG, CHAIN_CONFIGS } from './clients';
+import { log, now, rpcCallStats, RPC_LATENCY_BUCKETS } from './utils';
+import { lastPrices, lastBlockNumbers, gasCosts, priceHealth, poolStates } from './getters';
+import { getPriceFeed, chainlinkUpdatedAt } from './oracles';
+import { getPaperTradingStats, loopStats } from './arbitrage';
+import { getRegisteredChains, getCrossChainPoolPairs } from './registry';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  suffix?: string; // Appended to the family name (_bucket, _sum, _count)
+  labels?: Labels;
+  value: number;
+}
+
+// One metric family in the Prometheus text exposition format
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter' | 'histogram';
+  samples: Sample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function renderFamily({ name, help, type, samples }: MetricFamily): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  for (const { suffix = '', labels = {}, value } of samples) {
+    const labelText = Object.entries(labels).map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`).join(',');
+    lines.push(`${name}${suffix}${labelText ? `{${labelText}}` : ''} ${formatValue(value)}`);
+  }
+  return lines.join('\n');
+}
+
+// Blocks the chain head is ahead of the last block the loop saw; chains whose head can't be read are left out
+async function collectBlockLag(): Promise<Sample[]> {
+  const samples = await Promise.all(getRegisteredChains().map(async chain => {
+    const seen = lastBlockNumbers[chain];
+    if (seen === undefined || !clients[chain]) return [];
+    try {
+      const head = await clients[chain].getBlockNumber({ cacheTime: 0 });
+      return [{ labels: { chain }, value: Number(head - seen) }];
+    } catch {
+      return [];
+    }
+  }));
+  return samples.flat();
+}
+
+export interface CrossChainSpread {
+  poolA: string;
+  poolB: string;
+  base: string;
+  quote: string;
+  spreadBps: number;
+  timestamp: number; // Of the more recent of the two prices
+}
+
+// Price of each pair's first token in its second on both pools, as a spread of pool A over pool B
+// (pairs without both prices yet are left out)
+export function getCrossChainSpreads(): CrossChainSpread[] {
+  return getCrossChainPoolPairs().flatMap(([poolA, poolB]) => {
+    const entryA = poolStates[poolA.id];
+    const entryB = poolStates[poolB.id];
+    const priceA = lastPrices[poolA.id];
+    const priceB = lastPrices[poolB.id];
+    if (!entryA || !entryB || !priceA || !priceB) return [];
+
+    const base = entryA.metadata.token0.canonical;
+    const quote = entryA.metadata.token1.canonical;
+    const priceBInA = entryB.metadata.token0.canonical === base ? priceB.tokens1PerToken0 : priceB.tokens0PerToken1;
+    return [{ poolA: poolA.id, poolB: poolB.id, base, quote, spreadBps: (priceA.tokens1PerToken0 / priceBInA - 1) * 10000, timestamp: Math.max(priceA.timestamp, priceB.timestamp) }];
+  });
+}
+
+function collectSpreads(): Sample[] {
+  return getCrossChainSpreads().map(({ poolA, poolB, base, quote, spreadBps }) => ({ labels: { pool_a: poolA, pool_b: poolB, base, quote }, value: spreadBps }));
+}
+
+async function collectMetrics(): Promise<MetricFamily[]> {
+  const currentTime = now();
+  const seconds = (ms: number) => ms / 1000;
+  const chains = Object.keys(gasCosts);
+  const nativeUsd = (chain: string): number | undefined => {
+    const health = priceHealth[`${chain}-${CHAIN_CONFIGS[chain].nativeCurrency.symbol}`];
+    return health?.status === 'ok' ? health.price : undefined;
+  };
+  const stats = getPaperTradingStats();
+
+  return [
+    {
+      name: 'arb_block_number',
+      help: 'Last block number the monitoring loop saw on the chain.',
+      type: 'gauge',
+      samples: Object.entries(lastBlockNumbers).map(([chain, block]) => ({ labels: { chain }, value: Number(block) })),
+    },
+    {
+      name: 'arb_block_lag',
+      help: 'Blocks the chain head is ahead of the last block the monitoring loop saw.',
+      type: 'gauge',
+      samples: await collectBlockLag(),
+    },
+    {
+      name: 'arb_pool_price',
+      help: 'Last price of token0 in token1 on the pool.',
+      type: 'gauge',
+      samples: Object.entries(lastPrices).flatMap(([pool, price]) => {
+        const metadata = poolStates[pool]?.metadata;
+        if (!metadata) return [];
+        return [{ labels: { pool, chain: metadata.chain, base: metadata.token0.canonical, quote: metadata.token1.canonical }, value: price.tokens1PerToken0 }];
+      }),
+    },
+    {
+      name: 'arb_pool_price_age_seconds',
+      help: 'Seconds since the pool price was last updated.',
+      type: 'gauge',
+      samples: Object.entries(lastPrices).map(([pool, price]) => ({ labels: { pool }, value: seconds(currentTime - price.timestamp) })),
+    },
+    {
+      name: 'arb_cross_chain_spread_bps',
+      help: 'Price of the pair on pool_a over its price on pool_b, in basis points.',
+      type: 'gauge',
+      samples: collectSpreads(),
+    },
+    {
+      name: 'arb_gas_price_wei',
+      help: 'Expected price paid per gas on the chain.',
+      type: 'gauge',
+      samples: chains.map(chain => ({ labels: { chain }, value: Number(gasCosts[chain].gasPrice) })),
+    },
+    {
+      name: 'arb_route_gas_cost_native',
+      help: 'Gas cost of the last estimated route on the chain, in the native token.',
+      type: 'gauge',
+      samples: chains.map(chain => ({ labels: { chain }, value: Number(gasCosts[chain].totalCost) / 10 ** CHAIN_CONFIGS[chain].nativeCurrency.decimals })),
+    },
+    {
+      name: 'arb_route_gas_cost_usd',
+      help: 'Gas cost of the last estimated route on the chain, in USD (absent while the native price is unavailable).',
+      type: 'gauge',
+      samples: chains.flatMap(chain => {
+        const price = nativeUsd(chain);
+        if (price === undefined) return [];
+        return [{ labels: { chain }, value: Number(gasCosts[chain].totalCost) / 10 ** CHAIN_CONFIGS[chain].nativeCurrency.decimals * price }];
+      }),
+    },
+    {
+      name: 'arb_usd_price',
+      help: 'Last healthy USD price of the asset on the chain.',
+      type: 'gauge',
+      samples: Object.values(priceHealth).flatMap(health => health.status === 'ok'
+        ? [{ labels: { chain: health.chain, asset: health.asset, source: health.source! }, value: health.price! }]
+        : []),
+    },
+    {
+      name: 'arb_usd_price_healthy',
+      help: 'Whether the asset has a healthy USD price on the chain (1) or trading there is paused (0).',
+      type: 'gauge',
+      samples: Object.values(priceHealth).map(health => ({ labels: { chain: health.chain, asset: health.asset }, value: health.status === 'ok' ? 1 : 0 })),
+    },
+    {
+      name: 'arb_chainlink_answer_age_seconds',
+      help: 'Seconds since the Chainlink feed last updated its answer.',
+      type: 'gauge',
+      samples: Object.values(priceHealth).flatMap(({ chain, asset }) => {
+        const feed = getPriceFeed(chain, asset);
+        const updatedAt = feed && chainlinkUpdatedAt[`${chain}-${feed.address}`];
+        return updatedAt ? [{ labels: { chain, asset }, value: seconds(currentTime) - updatedAt }] : [];
+      }),
+    },
+    {
+      name: 'arb_rpc_attempts_total',
+      help: 'RPC call attempts made through withRetry.',
+      type: 'counter',
+      samples: [{ value: rpcCallStats.attempts }],
+    },
+    {
+      name: 'arb_rpc_errors_total',
+      help: 'RPC call attempts that threw (retried or not).',
+      type: 'counter',
+      samples: [{ value: rpcCallStats.errors }],
+    },
+    {
+      name: 'arb_rpc_failures_total',
+      help: 'RPC calls that still failed after every retry.',
+      type: 'counter',
+      samples: [{ value: rpcCallStats.failures }],
+    },
+    {
+      name: 'arb_rpc_attempt_duration_seconds',
+      help: 'Latency of each RPC call attempt made through withRetry.',
+      type: 'histogram',
+      samples: [
+        ...RPC_LATENCY_BUCKETS.map((bound, i) => ({ suffix: '_bucket', labels: { le: String(bound) }, value: rpcCallStats.latencyBuckets[i] })),
+        { suffix: '_bucket', labels: { le: '+Inf' }, value: rpcCallStats.attempts },
+        { suffix: '_sum', value: rpcCallStats.latencySum },
+        { suffix: '_count', value: rpcCallStats.attempts },
+      ],
+    },
+    {
+      name: 'arb_loop_cycles_total',
+      help: 'Completed monitoring loop cycles.',
+      type: 'counter',
+      samples: [{ value: loopStats.cycles }],
+    },
+    {
+      name: 'arb_loop_last_cycle_age_seconds',
+      help: 'Seconds since the monitoring loop last completed a cycle.',
+      type: 'gauge',
+      samples: loopStats.lastCycleAt ? [{ value: seconds(currentTime - loopStats.lastCycleAt) }] : [],
+    },
+    {
+      name: 'arb_checks_total',
+      help: 'Completed arbitrage checks (polled or event-triggered).',
+      type: 'counter',
+      samples: [{ value: loopStats.checks }],
+    },
+    {
+      name: 'arb_last_check_duration_seconds',
+      help: 'Duration of the last completed arbitrage check.',
+      type: 'gauge',
+      samples: loopStats.lastCheckAt ? [{ value: seconds(loopStats.lastCheckDurationMs) }] : [],
+    },
+    { name: 'arb_paper_trades', help: 'Settled arbitrage trades.', type: 'gauge', samples: [{ value: stats.totalTrades }] },
+    { name: 'arb_paper_profitable_trades', help: 'Settled arbitrage trades with a positive net profit.', type: 'gauge', samples: [{ value: stats.profitableTrades }] },
+    { name: 'arb_paper_pending_trades', help: 'Trades whose bridged second leg hasn\'t settled.', type: 'gauge', samples: [{ value: stats.pendingTrades }] },
+    { name: 'arb_paper_profit_usd', help: 'Net profit of the settled trades, in USD.', type: 'gauge', samples: [{ value: stats.totalProfit }] },
+    { name: 'arb_paper_portfolio_value_usd', help: 'Value of every balance and transfer in transit, in USD.', type: 'gauge', samples: [{ value: stats.totalValue }] },
+    { name: 'arb_paper_win_rate_percent', help: 'Share of settled trades with a positive net profit.', type: 'gauge', samples: [{ value: stats.winRate }] },
+    { name: 'arb_paper_rebalances', help: 'Inventory rebalancing moves made.', type: 'gauge', samples: [{ value: stats.rebalances }] },
+    { name: 'arb_paper_rebalance_cost_usd', help: 'Total cost of the rebalancing moves, in USD.', type: 'gauge', samples: [{ value: stats.rebalanceCost }] },
+  ];
+}
+
+// Every metric in the Prometheus text exposition format
+export async function renderMetrics(): Promise<string> {
+  return (await collectMetrics()).map(renderFamily).join('\n') + '\n';
+}
+
+// Serve GET /metrics on METRICS_HOST:METRICS_PORT
+export function startMetricsServer(port: number = CONFIG.METRICS_PORT, host: string = CONFIG.METRICS_HOST): Server {
+  const server = createServer(async (request, response) => {
+    if (request.method !== 'GET' || request.url?.split('?')[0] !== '/metrics') {
+      response.writeHead(404).end();
+      return;
+    }
+
+    try {
+      const body = await renderMetrics();
+      response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }).end(body);
+    } catch (error) {
+      log(`Failed to render metrics: ${error}`, 'error');
+      response.writeHead(500).end();
+    }
+  });
+
+  server.on('error', error => log(`Metrics server error: ${error}`, 'error'));
+  server.listen(port, host, () => log(`📈 Metrics served at http://${host}:${port}/metrics`));
+  return server;
+}
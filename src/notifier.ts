@@ -0,0 +1,218 @@
+import { CONFIG } from './clients';
+import { log, now } from './utils';
+import { onAlert, type Alert } from './alerts';
+import { getPaperTradingStats, paperTrades } from './arbitrage';
+
+// Alert types the notifier knows how to forward (daily-digest is sent on its own schedule)
+export const NOTIFY_EVENT_TYPES = [
+  'opportunity',
+  'trade-executed',
+  'trade-settled',
+  'trade-failed',
+  'oracle-unavailable',
+  'oracle-recovered',
+  'rpc-down',
+  'rpc-recovered',
+  'risk-limit',
+  'depeg-breaker',
+] as const;
+
+// Channel notifications are delivered to
+export interface NotificationSink {
+  name: string;
+  send(alert: Alert, text: string): Promise<void>;
+}
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+const SEVERITY_ICONS: Record<Alert['severity'], string> = { info: 'ℹ️', warning: '⚠️', critical: '🔴' };
+
+function formatNotification(alert: Alert): string {
+  return `${SEVERITY_ICONS[alert.severity]} [${alert.type}] ${alert.message}`;
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(CONFIG.NOTIFY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+  }
+}
+
+// POSTs each alert as JSON, with the formatted text alongside
+export function createWebhookSink(url: string): NotificationSink {
+  return {
+    name: 'webhook',
+    send: (alert, text) => postJson(url, { ...alert, text }),
+  };
+}
+
+// Slack incoming webhook (or any service accepting Slack's { text } payload)
+export function createSlackSink(webhookUrl: string): NotificationSink {
+  return {
+    name: 'slack',
+    send: (_, text) => postJson(webhookUrl, { text }),
+  };
+}
+
+// Messages a chat through a Telegram bot
+export function createTelegramSink(botToken: string, chatId: string): NotificationSink {
+  return {
+    name: 'telegram',
+    send: (_, text) => postJson(`https://api.telegram.org/bot${botToken}/sendMessage`, { chat_id: chatId, text, disable_web_page_preview: true }),
+  };
+}
+
+// Keeps every notification in memory and logs it instead of sending it, for tests and dry runs
+export function createMockSink(): NotificationSink & { sent: Array<{ alert: Alert; text: string }> } {
+  const sent: Array<{ alert: Alert; text: string }> = [];
+  return {
+    name: 'mock',
+    sent,
+    async send(alert, text) {
+      sent.push({ alert, text });
+      log(`📣 [mock notification] ${text}`);
+    },
+  };
+}
+
+// Sinks configured in the environment
+export function getConfiguredSinks(): NotificationSink[] {
+  const sinks: NotificationSink[] = [];
+  if (CONFIG.NOTIFY_WEBHOOK_URL) {
+    sinks.push(createWebhookSink(CONFIG.NOTIFY_WEBHOOK_URL));
+  }
+  if (CONFIG.NOTIFY_SLACK_WEBHOOK_URL) {
+    sinks.push(createSlackSink(CONFIG.NOTIFY_SLACK_WEBHOOK_URL));
+  }
+  if (CONFIG.NOTIFY_TELEGRAM_BOT_TOKEN && CONFIG.NOTIFY_TELEGRAM_CHAT_ID) {
+    sinks.push(createTelegramSink(CONFIG.NOTIFY_TELEGRAM_BOT_TOKEN, CONFIG.NOTIFY_TELEGRAM_CHAT_ID));
+  }
+  if (CONFIG.NOTIFY_MOCK) {
+    sinks.push(createMockSink());
+  }
+  return sinks;
+}
+
+function getEnabledEvents(): Set<string> {
+  if (!CONFIG.NOTIFY_EVENTS) {
+    return new Set(NOTIFY_EVENT_TYPES);
+  }
+
+  const events = CONFIG.NOTIFY_EVENTS.split(',').map(event => event.trim()).filter(Boolean);
+  for (const event of events) {
+    if (!(NOTIFY_EVENT_TYPES as readonly string[]).includes(event)) {
+      log(`Unknown NOTIFY_EVENTS entry "${event}" ignored (known: ${NOTIFY_EVENT_TYPES.join(', ')})`, 'warn');
+    }
+  }
+  return new Set(events);
+}
+
+// Per-event rules: whether an alert is worth a notification at all
+function matchesRules(alert: Alert, enabledEvents: Set<string>): boolean {
+  if (!enabledEvents.has(alert.type)) {
+    return false;
+  }
+  if (alert.type === 'opportunity') {
+    return Number(alert.details?.marginBps) >= CONFIG.NOTIFY_OPPORTUNITY_MIN_BPS;
+  }
+  return true;
+}
+
+// Rate limiting: one notification per condition (type and key) per cooldown, and at most NOTIFY_MAX_PER_HOUR
+// overall. Critical alerts skip the hourly cap. Suppressed notifications are counted on the next one sent.
+function createRateLimiter() {
+  const lastSentAt = new Map<string, number>();
+  const suppressed = new Map<string, number>();
+  let sentTimes: number[] = [];
+
+  return (alert: Alert): { allowed: boolean; suppressedCount: number } => {
+    const conditionKey = `${alert.type}:${alert.key ?? ''}`;
+    const currentTime = now();
+    sentTimes = sentTimes.filter(time => time > currentTime - HOUR_MS);
+
+    const coolingDown = currentTime - (lastSentAt.get(conditionKey) ?? -Infinity) < CONFIG.NOTIFY_COOLDOWN_MS;
+    const capped = alert.severity !== 'critical' && sentTimes.length >= CONFIG.NOTIFY_MAX_PER_HOUR;
+    if (coolingDown || capped) {
+      suppressed.set(conditionKey, (suppressed.get(conditionKey) ?? 0) + 1);
+      return { allowed: false, suppressedCount: 0 };
+    }
+
+    const suppressedCount = suppressed.get(conditionKey) ?? 0;
+    suppressed.delete(conditionKey);
+    lastSentAt.set(conditionKey, currentTime);
+    sentTimes.push(currentTime);
+    return { allowed: true, suppressedCount };
+  };
+}
+
+// Send to every sink; a failing sink is logged and never blocks the others or the loop
+function deliver(sinks: NotificationSink[], alert: Alert, text: string = formatNotification(alert)): void {
+  for (const sink of sinks) {
+    sink.send(alert, text).catch(error => log(`Notification to ${sink.name} failed: ${error}`, 'error'));
+  }
+}
+
+// P&L of the last 24 hours plus the running totals
+export function buildDailyDigest(): Alert {
+  const currentTime = now();
+  const stats = getPaperTradingStats();
+  const settledToday = paperTrades.filter(trade => trade.status !== 'pending' && (trade.settledAt ?? trade.timestamp) >= currentTime - DAY_MS);
+  const dayProfit = settledToday.reduce((sum, trade) => sum + trade.netProfit, 0);
+  const dayFailed = settledToday.filter(trade => trade.status === 'failed').length;
+
+  const message = [
+    `Daily P&L digest for ${new Date(currentTime).toISOString().slice(0, 10)}`,
+    `Last 24h: ${settledToday.length} trades settled (${dayFailed} failed), net $${dayProfit.toFixed(2)}`,
+    `All time: ${stats.totalTrades} trades, net $${stats.totalProfit.toFixed(2)}, win rate ${stats.winRate.toFixed(1)}%`,
+    `Pending: ${stats.pendingTrades} trades awaiting settlement`,
+    `Rebalancing: ${stats.rebalances} moves costing $${stats.rebalanceCost.toFixed(2)}`,
+    `Portfolio value: $${stats.totalValue.toFixed(2)}`,
+  ].join('\n');
+
+  return { type: 'daily-digest', severity: 'info', message, timestamp: currentTime, details: { ...stats, dayTrades: settledToday.length, dayProfit } };
+}
+
+// Forward alerts that pass the rules and rate limits to every sink, and send the daily digest
+// at NOTIFY_DIGEST_HOUR_UTC. Does nothing when no sink is configured.
+export function startNotifier(sinks: NotificationSink[] = getConfiguredSinks()): void {
+  if (sinks.length === 0) {
+    return;
+  }
+
+  const enabledEvents = getEnabledEvents();
+  const allow = createRateLimiter();
+
+  onAlert(alert => {
+    if (!matchesRules(alert, enabledEvents)) {
+      return;
+    }
+    const { allowed, suppressedCount } = allow(alert);
+    if (allowed) {
+      deliver(sinks, alert, formatNotification(alert) + (suppressedCount > 0 ? ` (+${suppressedCount} similar suppressed)` : ''));
+    }
+  });
+
+  if (CONFIG.NOTIFY_DAILY_DIGEST) {
+    // The day the last digest went out (or would have, before startup), as YYYY-MM-DD
+    const digestDay = (time: number) => new Date(time - CONFIG.NOTIFY_DIGEST_HOUR_UTC * HOUR_MS).toISOString().slice(0, 10);
+    let lastDigestDay = digestDay(now());
+
+    setInterval(() => {
+      const day = digestDay(now());
+      if (day !== lastDigestDay) {
+        lastDigestDay = day;
+        const digest = buildDailyDigest();
+        log(`📬 ${digest.message.replace(/\n/g, ' | ')}`);
+        deliver(sinks, digest);
+      }
+    }, 60000).unref();
+  }
+
+  log(`📣 Notifications enabled: ${sinks.map(sink => sink.name).join(', ')} (${[...enabledEvents].join(', ')})`);
+}
@@ -0,0 +1,210 @@
+import { parseAbi, getContract } from 'viem';
+import { clients, CHAIN_CONFIGS, type PriceFeedConfig } from './clients';
+import { log, now } from './utils';
+import { getRegistry, getRegisteredChains } from './registry';
+
+// Defaults for feeds that don't set their own limits
+const DEFAULT_MAX_STALENESS_SEC = 3600;
+const DEFAULT_TWAP_WINDOW_SEC = 1800;
+const DEFAULT_MAX_DEVIATION_BPS = 200;
+
+export type PriceSource = 'chainlink' | 'twap';
+
+// A price that passed its health checks
+export interface PriceReading {
+  price: number;
+  source: PriceSource;
+}
+
+const CHAINLINK_PRICE_FEED_ABI = parseAbi([
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() external view returns (uint8)',
+]);
+
+// Oracle functions of a Uniswap V3 style pool
+const TWAP_POOL_ABI = parseAbi([
+  'function observe(uint32[] secondsAgos) external view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+]);
+
+const ERC20_DECIMALS_ABI = parseAbi([
+  'function decimals() external view returns (uint8)',
+]);
+
+// updatedAt (seconds since the epoch) of the latest round read from each feed, keyed by chain and feed address
+export const chainlinkUpdatedAt: Record<string, number> = {};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Price feeds per chain and asset: the native/USD shorthand plus any declared under "priceFeeds"
+const PRICE_FEEDS: Record<string, Record<string, PriceFeedConfig>> = Object.fromEntries(
+  Object.entries(CHAIN_CONFIGS).map(([chainName, chain]) => [
+    chainName,
+    {
+      ...(chain.nativeUsdFeed && { [chain.nativeCurrency.symbol]: { address: chain.nativeUsdFeed } }),
+      ...chain.priceFeeds,
+    },
+  ])
+);
+
+export function getPriceFeed(chain: string, asset: string): PriceFeedConfig | undefined {
+  return PRICE_FEEDS[chain]?.[asset];
+}
+
+// Chain whose feed prices an asset on a chain: the chain's own, or any other chain's feed for the same asset
+export function findPriceFeedChain(chain: string, asset: string): string | undefined {
+  if (getPriceFeed(chain, asset)) {
+    return chain;
+  }
+  return getRegisteredChains().find(candidate => getPriceFeed(candidate, asset));
+}
+
+// Warn at startup about every token a chain's pools trade that is priced with another chain's feed, or with none,
+// so a missing priceFeeds entry doesn't go unnoticed
+export function warnPriceFeedFallbacks(): void {
+  const { pools } = getRegistry();
+  for (const chain of getRegisteredChains()) {
+    const tokens = new Set(pools.filter(pool => pool.chain === chain).flatMap(pool => pool.tokens));
+    for (const token of [...tokens].filter(token => !getPriceFeed(chain, token))) {
+      const feedChain = findPriceFeedChain(chain, token);
+      log(feedChain
+        ? `${chain} has no ${token}/USD feed: ${token} on ${chain} is priced with ${feedChain}'s feed (add a "${token}" priceFeeds entry for ${chain})`
+        : `No chain has a ${token}/USD feed: ${token} on ${chain} can't be priced`, 'warn');
+    }
+  }
+}
+
+// Seconds since the epoch at the block being read (the simulated clock for live reads)
+async function getReferenceTime(chain: string, blockNumber?: bigint): Promise<number> {
+  if (blockNumber === undefined) {
+    return Math.floor(now() / 1000);
+  }
+  const block = await clients[chain].getBlock({ blockNumber });
+  return Number(block.timestamp);
+}
+
+// Read a Chainlink feed, throwing with the reason if the answer fails any health check
+export async function readChainlinkPrice(chain: string, feed: PriceFeedConfig, blockNumber?: bigint): Promise<number> {
+  const priceFeed = getContract({
+    address: feed.address as `0x${string}`,
+    abi: CHAINLINK_PRICE_FEED_ABI,
+    client: clients[chain],
+  });
+
+  const [[roundId, answer, , updatedAt, answeredInRound], decimals, referenceTime] = await Promise.all([
+    priceFeed.read.latestRoundData({ blockNumber }),
+    priceFeed.read.decimals(),
+    getReferenceTime(chain, blockNumber),
+  ]);
+
+  if (blockNumber === undefined) {
+    chainlinkUpdatedAt[`${chain}-${feed.address}`] = Number(updatedAt);
+  }
+
+  if (answer <= 0n) {
+    throw new Error(`non-positive answer ${answer}`);
+  }
+  if (updatedAt === 0n || answeredInRound < roundId) {
+    throw new Error(`incomplete round ${roundId} (answered in ${answeredInRound}, updated at ${updatedAt})`);
+  }
+
+  const age = referenceTime - Number(updatedAt);
+  const maxStaleness = feed.maxStalenessSec ?? DEFAULT_MAX_STALENESS_SEC;
+  if (age > maxStaleness) {
+    throw new Error(`stale answer: updated ${age}s ago (max ${maxStaleness}s)`);
+  }
+
+  const price = Number(answer) / Math.pow(10, decimals);
+  if ((feed.minPrice !== undefined && price < feed.minPrice) || (feed.maxPrice !== undefined && price > feed.maxPrice)) {
+    throw new Error(`answer $${price} outside sanity bounds [${feed.minPrice ?? 0}, ${feed.maxPrice ?? '∞'}]`);
+  }
+
+  return price;
+}
+
+// Time-weighted price of the asset from the feed's TWAP pool, quoted in the feed's twapQuote stablecoin
+export async function readTwapPrice(chain: string, feed: PriceFeedConfig, blockNumber?: bigint): Promise<number> {
+  if (!feed.twapPool) {
+    throw new Error('no TWAP pool configured');
+  }
+  const quoteAddress = feed.twapQuote && getRegistry().chains[chain]?.tokens[feed.twapQuote]?.address?.toLowerCase();
+  if (!quoteAddress) {
+    throw new Error(`TWAP quote token ${feed.twapQuote ?? '(unset)'} has no registered address on ${chain} (set twapQuote to a registry symbol)`);
+  }
+
+  const client = clients[chain];
+  const pool = getContract({ address: feed.twapPool as `0x${string}`, abi: TWAP_POOL_ABI, client });
+  const window = feed.twapWindowSec ?? DEFAULT_TWAP_WINDOW_SEC;
+
+  const [[tickCumulatives], token0, token1] = await Promise.all([
+    pool.read.observe([[window, 0]], { blockNumber }),
+    pool.read.token0({ blockNumber }),
+    pool.read.token1({ blockNumber }),
+  ]);
+
+  const quoteIsToken0 = token0.toLowerCase() === quoteAddress;
+  if (!quoteIsToken0 && token1.toLowerCase() !== quoteAddress) {
+    throw new Error(`TWAP pool ${feed.twapPool} does not trade ${feed.twapQuote}`);
+  }
+
+  const [decimals0, decimals1] = await Promise.all([
+    client.readContract({ address: token0, abi: ERC20_DECIMALS_ABI, functionName: 'decimals', blockNumber }),
+    client.readContract({ address: token1, abi: ERC20_DECIMALS_ABI, functionName: 'decimals', blockNumber }),
+  ]);
+
+  // Mean tick over the window gives token1 per token0
+  const averageTick = Number(tickCumulatives[1] - tickCumulatives[0]) / window;
+  const token1PerToken0 = Math.pow(1.0001, averageTick) * Math.pow(10, decimals0 - decimals1);
+
+  return quoteIsToken0 ? 1 / token1PerToken0 : token1PerToken0;
+}
+
+// Chainlink price cross-checked against the TWAP; the TWAP stands in if Chainlink fails its checks.
+// Throws with the reason when no healthy price is available.
+export async function readHealthyPrice(chain: string, asset: string, blockNumber?: bigint): Promise<PriceReading> {
+  const feed = getPriceFeed(chain, asset);
+  if (!feed) {
+    throw new Error(`no price feed configured for ${asset} on ${chain}`);
+  }
+
+  let chainlinkPrice: number;
+  try {
+    chainlinkPrice = await readChainlinkPrice(chain, feed, blockNumber);
+  } catch (chainlinkError) {
+    if (!feed.twapPool) {
+      throw new Error(`Chainlink: ${errorMessage(chainlinkError)}`);
+    }
+
+    try {
+      const twapPrice = await readTwapPrice(chain, feed, blockNumber);
+      log(`Chainlink ${asset} feed on ${chain} unhealthy (${errorMessage(chainlinkError)}), using TWAP $${twapPrice.toFixed(4)}`, 'warn');
+      return { price: twapPrice, source: 'twap' };
+    } catch (twapError) {
+      throw new Error(`Chainlink: ${errorMessage(chainlinkError)}; TWAP: ${errorMessage(twapError)}`);
+    }
+  }
+
+  if (!feed.twapPool) {
+    return { price: chainlinkPrice, source: 'chainlink' };
+  }
+
+  let twapPrice: number;
+  try {
+    twapPrice = await readTwapPrice(chain, feed, blockNumber);
+  } catch (error) {
+    // A missing secondary doesn't invalidate a healthy primary
+    log(`Could not read ${asset} TWAP on ${chain}, using Chainlink alone: ${error}`, 'warn');
+    return { price: chainlinkPrice, source: 'chainlink' };
+  }
+
+  const deviationBps = Math.abs(chainlinkPrice - twapPrice) / twapPrice * 10000;
+  const maxDeviation = feed.maxDeviationBps ?? DEFAULT_MAX_DEVIATION_BPS;
+  if (deviationBps > maxDeviation) {
+    throw new Error(`Chainlink $${chainlinkPrice} and TWAP $${twapPrice.toFixed(4)} differ by ${deviationBps.toFixed(0)} bps (max ${maxDeviation})`);
+  }
+
+  return { price: chainlinkPrice, source: 'chainlink' };
+}
@@ -0,0 +1,431 @@
+import { getContract, parseAbi, encodeFunctionData, decodeFunctionResult, type PublicClient, type Hex } from 'viem';
+import { CONFIG } from './clients';
+import { log, withRetry, now } from './utils';
+import { getRegisteredPool, type RegistryDex } from './registry';
+import type { PoolMetadata } from './getters';
+import {
+  simulateExactInput,
+  getBitmapWordRange,
+  getTickRange,
+  getTicksInBitmapWord,
+  type ClPoolState,
+  type SwapResult
+} from './simulator';
+
+// Pool implementations the registry can mix freely
+export const POOL_TYPES = ['uniswap-v3', 'algebra', 'uniswap-v2', 'solidly-stable'] as const;
+export type PoolType = typeof POOL_TYPES[number];
+
+// Registry pools without a "type" are Uniswap V3 style
+export const DEFAULT_POOL_TYPE: PoolType = 'uniswap-v3';
+
+// Pools priced from their reserves, whose fee isn't read on-chain and must be set in the registry
+export const RESERVES_POOL_TYPES: readonly PoolType[] = ['uniswap-v2', 'solidly-stable'];
+
+// Reserves of a V2-style pool, priced by constant product (x·y = k) or the Solidly stable curve (x³y + xy³ = k)
+export interface ReservesPoolState {
+  reserve0: bigint;
+  reserve1: bigint;
+  fee: number; // Hundredths of a bip, like CL pool fees
+  timestamp: number;
+}
+
+export type PoolState = ClPoolState | ReservesPoolState;
+
+export function isReservesState(state: PoolState): state is ReservesPoolState {
+  return 'reserve0' in state;
+}
+
+// Outcome of an exact-input swap against a pool state, in raw token units
+export type ExactInputResult = Pick<SwapResult, 'amountIn' | 'amountOut' | 'feeAmount' | 'ticksCrossed' | 'complete'>;
+
+// Router arguments of an exact-input swap
+export interface RouterSwapParams {
+  tokenIn: `0x${string}`;
+  tokenOut: `0x${string}`;
+  recipient: `0x${string}`;
+  deadline: bigint;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+}
+
+// What the bot needs from each kind of pool
+export interface PoolAdapter {
+  // token0 and token1 addresses (symbols and decimals are read from the tokens)
+  readTokens(client: PublicClient, address: `0x${string}`): Promise<[`0x${string}`, `0x${string}`]>;
+  // State needed to price and quote the pool (as of blockNumber when given, which needs an archive node)
+  loadState(client: PublicClient, metadata: PoolMetadata, blockNumber?: bigint): Promise<PoolState>;
+  // Marginal price of token0 in token1, in whole tokens
+  getSpotPrice(state: PoolState, metadata: PoolMetadata): number;
+  quoteExactInput(state: PoolState, metadata: PoolMetadata, zeroForOne: boolean, amountIn: bigint): ExactInputResult;
+  // Router calldata for an exact-input swap, and the output amount in the router's return data
+  encodeSwap(state: PoolState, dex: RegistryDex, params: RouterSwapParams): Hex;
+  decodeAmountOut(data: Hex): bigint;
+}
+
+const POOL_TOKENS_ABI = parseAbi([
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+]);
+
+// Minimal ABI for Uniswap V3 pool contracts
+const UNISWAP_V3_POOL_ABI = parseAbi([
+  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function fee() external view returns (uint24)',
+  'function liquidity() external view returns (uint128)',
+  'function tickSpacing() external view returns (int24)',
+  'function tickBitmap(int16 wordPosition) external view returns (uint256)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet)',
+]);
+
+// Algebra pools keep price, tick and the (dynamic) fee in globalState. Only its leading fields are decoded,
+// which are the same in every Algebra version
+const ALGEBRA_POOL_ABI = parseAbi([
+  'function globalState() external view returns (uint160 price, int24 tick, uint16 fee)',
+  'function liquidity() external view returns (uint128)',
+  'function tickSpacing() external view returns (int24)',
+  'function tickTable(int16 wordPosition) external view returns (uint256)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityTotal, int128 liquidityDelta)',
+]);
+
+// getReserves of Uniswap V2 (uint112) and Solidly (uint256) pairs decodes the same
+const RESERVES_POOL_ABI = parseAbi([
+  'function getReserves() external view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)',
+]);
+
+// exactInputSingle for Uniswap V3 style routers (Pharaoh) and Ramses V3 style routers keyed by tick spacing (Shadow)
+const FEE_ROUTER_ABI = parseAbi([
+  'struct ExactInputSingleParams { address tokenIn; address tokenOut; uint24 fee; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; uint160 sqrtPriceLimitX96; }',
+  'function exactInputSingle(ExactInputSingleParams params) external payable returns (uint256 amountOut)',
+]);
+
+const TICK_SPACING_ROUTER_ABI = parseAbi([
+  'struct ExactInputSingleParams { address tokenIn; address tokenOut; int24 tickSpacing; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; uint160 sqrtPriceLimitX96; }',
+  'function exactInputSingle(ExactInputSingleParams params) external payable returns (uint256 amountOut)',
+]);
+
+// Algebra routers find the pool from the token pair alone
+const ALGEBRA_ROUTER_ABI = parseAbi([
+  'struct ExactInputSingleParams { address tokenIn; address tokenOut; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; uint160 limitSqrtPrice; }',
+  'function exactInputSingle(ExactInputSingleParams params) external payable returns (uint256 amountOut)',
+]);
+
+const V2_ROUTER_ABI = parseAbi([
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) external returns (uint256[] amounts)',
+]);
+
+// Solidly routers pick the stable or volatile pair of a token pair per route
+const SOLIDLY_ROUTER_ABI = parseAbi([
+  'struct Route { address from; address to; bool stable; }',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, Route[] routes, address to, uint256 deadline) external returns (uint256[] amounts)',
+]);
+
+const FEE_DENOMINATOR = 1_000_000n; // Fees are expressed in hundredths of a bip
+const ONE = 10n ** 18n;             // Solidly normalizes stable reserves to 18 decimals
+
+async function readPoolTokens(client: PublicClient, address: `0x${string}`): Promise<[`0x${string}`, `0x${string}`]> {
+  const poolContract = getContract({ address, abi: POOL_TOKENS_ABI, client });
+  return Promise.all([poolContract.read.token0(), poolContract.read.token1()]);
+}
+
+function asConcentrated(state: PoolState, metadata: PoolMetadata): ClPoolState {
+  if (isReservesState(state)) {
+    throw new Error(`${metadata.id} is a ${metadata.type} pool but has reserves state`);
+  }
+  return state;
+}
+
+function asReserves(state: PoolState, metadata: PoolMetadata): ReservesPoolState {
+  if (!isReservesState(state)) {
+    throw new Error(`${metadata.id} is a ${metadata.type} pool but has concentrated-liquidity state`);
+  }
+  return state;
+}
+
+// Helper function to calculate price from sqrtPriceX96 (Uniswap V3)
+function calculatePriceFromSqrtPriceX96(sqrtPriceX96: bigint, token0Decimals: number = 6, token1Decimals: number = 6): number {
+  // Convert sqrtPriceX96 to price
+  // price = (sqrtPriceX96 / 2^96)^2 * 10^(token1Decimals - token0Decimals)
+  const Q96 = 2n ** 96n;
+  const price = Number(sqrtPriceX96 * sqrtPriceX96 * (10n ** BigInt(token1Decimals))) / Number(Q96 * Q96 * (10n ** BigInt(token0Decimals)));
+  return price;
+}
+
+// Reads behind a CL pool's state, bound to a pool and block. Bitmap words and ticks are read in one multicall each
+interface ConcentratedReads {
+  core(): Promise<{ sqrtPriceX96: bigint; tick: number; liquidity: bigint; fee: number; tickSpacing: number }>;
+  bitmaps(words: number[]): Promise<bigint[]>;
+  liquidityNets(ticks: number[]): Promise<bigint[]>;
+}
+
+// Word of the tick bitmap holding a tick
+function getBitmapWord(tick: number, tickSpacing: number): number {
+  return Math.floor(tick / tickSpacing) >> 8;
+}
+
+// Read price, liquidity, fee and the initialized ticks a trade can reach: within TICK_RANGE_BPS of the price,
+// and no further than TICK_BITMAP_WORDS words either side
+async function loadConcentratedState(metadata: PoolMetadata, reads: ConcentratedReads): Promise<ClPoolState> {
+  const { sqrtPriceX96, tick, liquidity, fee, tickSpacing } = await withRetry(() => reads.core());
+  const { minWord, maxWord } = getBitmapWordRange(tick, tickSpacing, CONFIG.TICK_BITMAP_WORDS);
+  const range = getTickRange(tick, CONFIG.TICK_RANGE_BPS);
+  const minLoadedTick = Math.max(minWord * 256 * tickSpacing, range.minTick);
+  const maxLoadedTick = Math.min((maxWord * 256 + 255) * tickSpacing, range.maxTick);
+
+  const firstWord = getBitmapWord(minLoadedTick, tickSpacing);
+  const words = Array.from({ length: getBitmapWord(maxLoadedTick, tickSpacing) - firstWord + 1 }, (_, i) => firstWord + i);
+
+  // Find initialized ticks from the bitmap, then read their net liquidity
+  const bitmaps = await withRetry(() => reads.bitmaps(words));
+  const initializedTicks = words
+    .flatMap((word, i) => getTicksInBitmapWord(word, bitmaps[i], tickSpacing))
+    .filter(t => t >= minLoadedTick && t <= maxLoadedTick);
+  const liquidityNets = initializedTicks.length > 0 ? await withRetry(() => reads.liquidityNets(initializedTicks)) : [];
+
+  const ticks = new Map<number, bigint>();
+  initializedTicks.forEach((t, i) => ticks.set(t, liquidityNets[i]));
+
+  log(`${metadata.chain} ${metadata.dexName} pool state: liquidity=${liquidity}, fee=${fee / 10000}%, tickSpacing=${tickSpacing}, ${ticks.size} initialized ticks loaded`, 'info', { chain: metadata.chain, pool: metadata.id });
+
+  return {
+    sqrtPriceX96,
+    tick,
+    liquidity,
+    fee,
+    tickSpacing,
+    ticks,
+    minLoadedTick,
+    maxLoadedTick,
+    timestamp: now()
+  };
+}
+
+// Read the reserves; the fee comes from the registry
+async function loadReservesState(client: PublicClient, metadata: PoolMetadata, blockNumber?: bigint): Promise<ReservesPoolState> {
+  const { fee } = getRegisteredPool(metadata.id);
+  if (fee === undefined) {
+    throw new Error(`No fee configured for ${metadata.type} pool ${metadata.id} (set "fee" in the registry)`);
+  }
+
+  const poolContract = getContract({ address: metadata.address as `0x${string}`, abi: RESERVES_POOL_ABI, client });
+  const [reserve0, reserve1] = await withRetry(() => poolContract.read.getReserves({ blockNumber }));
+
+  log(`${metadata.chain} ${metadata.dexName} pool state: reserves=${reserve0}/${reserve1}, fee=${fee / 10000}%`, 'info', { chain: metadata.chain, pool: metadata.id });
+
+  return { reserve0, reserve1, fee, timestamp: now() };
+}
+
+// Split an input into the fee the pool keeps and the amount that moves the price
+function takeFee(amountIn: bigint, fee: number): { feeAmount: bigint; amountInLessFee: bigint } {
+  const feeAmount = amountIn * BigInt(fee) / FEE_DENOMINATOR;
+  return { feeAmount, amountInLessFee: amountIn - feeAmount };
+}
+
+// Exact-input quote against reserves, given the curve's output for the input less fee
+function quoteReserves(
+  state: ReservesPoolState,
+  zeroForOne: boolean,
+  amountIn: bigint,
+  getAmountOut: (amountInLessFee: bigint, reserveIn: bigint, reserveOut: bigint) => bigint
+): ExactInputResult {
+  const [reserveIn, reserveOut] = zeroForOne ? [state.reserve0, state.reserve1] : [state.reserve1, state.reserve0];
+  if (reserveIn === 0n || reserveOut === 0n) {
+    return { amountIn: 0n, amountOut: 0n, feeAmount: 0n, ticksCrossed: 0, complete: false };
+  }
+
+  const { feeAmount, amountInLessFee } = takeFee(amountIn, state.fee);
+  return { amountIn, amountOut: getAmountOut(amountInLessFee, reserveIn, reserveOut), feeAmount, ticksCrossed: 0, complete: true };
+}
+
+// Solidly stable invariant x³y + xy³, over reserves normalized to 18 decimals (Pair._k)
+function stableK(x: bigint, y: bigint): bigint {
+  const a = x * y / ONE;
+  const b = x * x / ONE + y * y / ONE;
+  return a * b / ONE;
+}
+
+// Pair._f and Pair._d: the invariant at (x0, y) and its derivative in y
+function stableF(x0: bigint, y: bigint): bigint {
+  return x0 * (y * y / ONE * y / ONE) / ONE + (x0 * x0 / ONE * x0 / ONE) * y / ONE;
+}
+
+function stableD(x0: bigint, y: bigint): bigint {
+  return 3n * x0 * (y * y / ONE) / ONE + (x0 * x0 / ONE * x0 / ONE);
+}
+
+// Pair._get_y: Newton's method for the y that keeps the invariant at k once x is x0
+function stableGetY(x0: bigint, k: bigint, y: bigint): bigint {
+  for (let i = 0; i < 255; i++) {
+    const yPrev = y;
+    const f = stableF(x0, y);
+    y = f < k ? y + (k - f) * ONE / stableD(x0, y) : y - (f - k) * ONE / stableD(x0, y);
+    if ((y > yPrev ? y - yPrev : yPrev - y) <= 1n) {
+      return y;
+    }
+  }
+  return y;
+}
+
+function uniswapV3Reads(client: PublicClient, metadata: PoolMetadata, blockNumber?: bigint): ConcentratedReads {
+  const pool = { address: metadata.address as `0x${string}`, abi: UNISWAP_V3_POOL_ABI } as const;
+  const poolContract = getContract({ ...pool, client });
+  return {
+    async core() {
+      const [slot0, liquidity, fee, tickSpacing] = await Promise.all([
+        poolContract.read.slot0({ blockNumber }),
+        poolContract.read.liquidity({ blockNumber }),
+        poolContract.read.fee({ blockNumber }),
+        poolContract.read.tickSpacing({ blockNumber }),
+      ]);
+      return { sqrtPriceX96: slot0[0], tick: slot0[1], liquidity, fee, tickSpacing };
+    },
+    bitmaps: words => client.multicall({
+      contracts: words.map(word => ({ ...pool, functionName: 'tickBitmap', args: [word] }) as const),
+      allowFailure: false,
+      blockNumber,
+    }),
+    liquidityNets: async ticks => (await client.multicall({
+      contracts: ticks.map(tick => ({ ...pool, functionName: 'ticks', args: [tick] }) as const),
+      allowFailure: false,
+      blockNumber,
+    })).map(([, liquidityNet]) => liquidityNet),
+  };
+}
+
+function algebraReads(client: PublicClient, metadata: PoolMetadata, blockNumber?: bigint): ConcentratedReads {
+  const pool = { address: metadata.address as `0x${string}`, abi: ALGEBRA_POOL_ABI } as const;
+  const poolContract = getContract({ ...pool, client });
+  return {
+    async core() {
+      const [globalState, liquidity, tickSpacing] = await Promise.all([
+        poolContract.read.globalState({ blockNumber }),
+        poolContract.read.liquidity({ blockNumber }),
+        poolContract.read.tickSpacing({ blockNumber }),
+      ]);
+      return { sqrtPriceX96: globalState[0], tick: globalState[1], liquidity, fee: globalState[2], tickSpacing };
+    },
+    bitmaps: words => client.multicall({
+      contracts: words.map(word => ({ ...pool, functionName: 'tickTable', args: [word] }) as const),
+      allowFailure: false,
+      blockNumber,
+    }),
+    liquidityNets: async ticks => (await client.multicall({
+      contracts: ticks.map(tick => ({ ...pool, functionName: 'ticks', args: [tick] }) as const),
+      allowFailure: false,
+      blockNumber,
+    })).map(([, liquidityDelta]) => liquidityDelta),
+  };
+}
+
+// CL pools share the simulator; they differ in how their state is read and how routers address them
+function concentratedAdapter(
+  reads: typeof uniswapV3Reads,
+  encodeSwap: (state: ClPoolState, dex: RegistryDex, params: RouterSwapParams) => Hex
+): PoolAdapter {
+  return {
+    readTokens: readPoolTokens,
+
+    async loadState(client, metadata, blockNumber) {
+      return loadConcentratedState(metadata, reads(client, metadata, blockNumber));
+    },
+
+    getSpotPrice(state, metadata) {
+      const { sqrtPriceX96 } = asConcentrated(state, metadata);
+      return calculatePriceFromSqrtPriceX96(sqrtPriceX96, metadata.token0.decimals, metadata.token1.decimals);
+    },
+
+    quoteExactInput(state, metadata, zeroForOne, amountIn) {
+      return simulateExactInput(asConcentrated(state, metadata), zeroForOne, amountIn);
+    },
+
+    encodeSwap(state, dex, params) {
+      if (isReservesState(state)) {
+        throw new Error('Concentrated-liquidity router swap needs concentrated-liquidity state');
+      }
+      return encodeSwap(state, dex, params);
+    },
+
+    decodeAmountOut(data) {
+      return decodeFunctionResult({ abi: FEE_ROUTER_ABI, functionName: 'exactInputSingle', data });
+    },
+  };
+}
+
+// Reserves pools differ in their curve and router
+function reservesAdapter(
+  getSpotPrice: (reserve0: number, reserve1: number) => number,
+  getAmountOut: (metadata: PoolMetadata, zeroForOne: boolean) => (amountInLessFee: bigint, reserveIn: bigint, reserveOut: bigint) => bigint,
+  encodeSwap: (params: RouterSwapParams) => Hex
+): PoolAdapter {
+  return {
+    readTokens: readPoolTokens,
+
+    loadState: loadReservesState,
+
+    getSpotPrice(state, metadata) {
+      const { reserve0, reserve1 } = asReserves(state, metadata);
+      return getSpotPrice(Number(reserve0) / 10 ** metadata.token0.decimals, Number(reserve1) / 10 ** metadata.token1.decimals);
+    },
+
+    quoteExactInput(state, metadata, zeroForOne, amountIn) {
+      return quoteReserves(asReserves(state, metadata), zeroForOne, amountIn, getAmountOut(metadata, zeroForOne));
+    },
+
+    encodeSwap(_state, _dex, params) {
+      return encodeSwap(params);
+    },
+
+    decodeAmountOut(data) {
+      const amounts = decodeFunctionResult({ abi: V2_ROUTER_ABI, functionName: 'swapExactTokensForTokens', data });
+      return amounts[amounts.length - 1];
+    },
+  };
+}
+
+const POOL_ADAPTERS: Record<PoolType, PoolAdapter> = {
+  'uniswap-v3': concentratedAdapter(uniswapV3Reads, (state, dex, params) => {
+    const args = { ...params, sqrtPriceLimitX96: 0n };
+    return dex.routerPoolKey === 'tickSpacing'
+      ? encodeFunctionData({ abi: TICK_SPACING_ROUTER_ABI, functionName: 'exactInputSingle', args: [{ ...args, tickSpacing: state.tickSpacing }] })
+      : encodeFunctionData({ abi: FEE_ROUTER_ABI, functionName: 'exactInputSingle', args: [{ ...args, fee: state.fee }] });
+  }),
+
+  'algebra': concentratedAdapter(algebraReads, (_state, _dex, params) =>
+    encodeFunctionData({ abi: ALGEBRA_ROUTER_ABI, functionName: 'exactInputSingle', args: [{ ...params, limitSqrtPrice: 0n }] })
+  ),
+
+  // UniswapV2Library.getAmountOut
+  'uniswap-v2': reservesAdapter(
+    (reserve0, reserve1) => reserve1 / reserve0,
+    () => (amountInLessFee, reserveIn, reserveOut) => amountInLessFee * reserveOut / (reserveIn + amountInLessFee),
+    ({ tokenIn, tokenOut, recipient, deadline, amountIn, amountOutMinimum }) =>
+      encodeFunctionData({ abi: V2_ROUTER_ABI, functionName: 'swapExactTokensForTokens', args: [amountIn, amountOutMinimum, [tokenIn, tokenOut], recipient, deadline] })
+  ),
+
+  // Pair._getAmountOut for stable pairs. The marginal price is the ratio of the invariant's partial derivatives
+  'solidly-stable': reservesAdapter(
+    (x, y) => (3 * x * x * y + y * y * y) / (x * x * x + 3 * x * y * y),
+    (metadata, zeroForOne) => {
+      const scale0 = 10n ** BigInt(metadata.token0.decimals);
+      const scale1 = 10n ** BigInt(metadata.token1.decimals);
+      const [scaleIn, scaleOut] = zeroForOne ? [scale0, scale1] : [scale1, scale0];
+
+      return (amountInLessFee, reserveIn, reserveOut) => {
+        const x = reserveIn * ONE / scaleIn;
+        const y = reserveOut * ONE / scaleOut;
+        const dy = y - stableGetY(x + amountInLessFee * ONE / scaleIn, stableK(x, y), y);
+        return dy * scaleOut / ONE;
+      };
+    },
+    ({ tokenIn, tokenOut, recipient, deadline, amountIn, amountOutMinimum }) =>
+      encodeFunctionData({ abi: SOLIDLY_ROUTER_ABI, functionName: 'swapExactTokensForTokens', args: [amountIn, amountOutMinimum, [{ from: tokenIn, to: tokenOut, stable: true }], recipient, deadline] })
+  ),
+};
+
+export function getPoolAdapter(type: PoolType): PoolAdapter {
+  const adapter = POOL_ADAPTERS[type];
+  if (!adapter) {
+    throw new Error(`Unsupported pool type: ${type}`);
+  }
+  return adapter;
+}
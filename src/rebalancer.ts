@@ -0,0 +1,345 @@
+import { CONFIG, CHAIN_CONFIGS } from './clients';
+import { log, now } from './utils';
+import { poolStates, quoteSwap, type SwapQuote } from './getters';
+import { getBestBridgeQuote, type BridgeQuote } from './bridges';
+import { estimateMoveGas, getRouteGasCostUSD } from './gas';
+import { depegBreaker } from './depeg';
+import { isKillSwitchEngaged } from './risk';
+import { getExecutionBackend } from './execution';
+import { appendLedgerEvent } from './ledger';
+import { getRegisteredPools } from './registry';
+import { getTokenPriceUSD } from './valuation';
+import {
+  getPaperBalance,
+  getPaperChains,
+  getTokenBalance,
+  getInTransitBalance,
+  adjustPaperBalance,
+  startBridgeTransfer,
+  paperTrades,
+  pendingTransfers,
+} from './arbitrage';
+
+// Smaller moves aren't worth their fixed costs
+const MIN_MOVE_USD = 100;
+
+// One chain's holding of one token against its target allocation
+interface Holding {
+  chain: string;
+  token: string;
+  valueUSD: number;
+  targetUSD: number;
+}
+
+// A move that brings one surplus holding towards one deficit holding
+export interface PlannedMove {
+  fromChain: string;
+  fromToken: string;
+  toChain: string;
+  toToken: string;
+  amountUSD: number;
+}
+
+// An executed rebalancing move; its costs are tracked apart from arbitrage P&L
+export interface RebalanceMove {
+  id: string;
+  fromChain: string;
+  fromToken: string;
+  toChain: string;
+  toToken: string;
+  amount: number;    // fromToken spent
+  amountOut: number; // toToken delivered to the destination
+  pool?: string;     // Pool swapped through when the token changes
+  bridge?: string;   // Bridge used when the chain changes
+  swapCost: number;  // Swap fee and price impact, USD
+  gasCost: number;
+  bridgeCost: number;
+  totalCost: number;
+  status: 'in-transit' | 'completed';
+  timestamp: number;
+  completedAt?: number;
+}
+
+// Costed move, ready to execute
+interface MoveQuote {
+  amount: number;
+  amountOut: number;
+  swap: SwapQuote | null;
+  bridge: BridgeQuote | null;
+  swapCost: number;
+  gasCost: number;
+  bridgeCost: number;
+  totalCost: number;
+}
+
+export const rebalanceMoves: RebalanceMove[] = [];
+
+// Moves planned for the next quiet period
+export const scheduledMoves: PlannedMove[] = [];
+
+let lastRebalanceAttempt = 0;
+
+function describeMove(move: PlannedMove): string {
+  return `${move.fromToken} on ${move.fromChain} → ${move.toToken} on ${move.toChain} ($${move.amountUSD.toFixed(2)})`;
+}
+
+// Every priced chain/token holding (in-transit funds count at their destination) with its share of the portfolio
+function getHoldings(): Holding[] {
+  const weighted = getPaperChains().flatMap(chain => {
+    const balance = getPaperBalance(chain).tokens;
+    const inTransit = getInTransitBalance(chain);
+    return [...new Set([...Object.keys(balance), ...Object.keys(inTransit)])].flatMap(token => {
+      const price = getTokenPriceUSD(chain, token);
+      if (price === undefined) return [];
+      return [{
+        chain,
+        token,
+        weight: CHAIN_CONFIGS[chain]?.inventoryTargets?.[token] ?? 1,
+        valueUSD: ((balance[token] ?? 0) + (inTransit[token] ?? 0)) * price,
+      }];
+    });
+  });
+
+  const totalWeight = weighted.reduce((sum, holding) => sum + holding.weight, 0);
+  const totalUSD = weighted.reduce((sum, holding) => sum + holding.valueUSD, 0);
+
+  return weighted.map(({ chain, token, weight, valueUSD }) => ({
+    chain,
+    token,
+    valueUSD,
+    targetUSD: totalWeight > 0 ? totalUSD * weight / totalWeight : 0,
+  }));
+}
+
+// Greedy plan: once any holding drifts past the threshold, move from the largest surplus to the largest deficit
+// until none does
+export function planRebalance(): PlannedMove[] {
+  const holdings = getHoldings();
+  const totalUSD = holdings.reduce((sum, holding) => sum + holding.valueUSD, 0);
+  const threshold = totalUSD * CONFIG.REBALANCE_DRIFT_BPS / 10000;
+  const drift = (holding: Holding) => holding.valueUSD - holding.targetUSD;
+  const moves: PlannedMove[] = [];
+
+  for (let i = 0; i < holdings.length; i++) {
+    const surplus = holdings.reduce((best, holding) => drift(holding) > drift(best) ? holding : best);
+    const deficit = holdings.reduce((worst, holding) => drift(holding) < drift(worst) ? holding : worst);
+    if (Math.max(drift(surplus), -drift(deficit)) <= threshold) break;
+
+    const amountUSD = Math.min(drift(surplus), -drift(deficit));
+    if (amountUSD < MIN_MOVE_USD) break;
+
+    moves.push({ fromChain: surplus.chain, fromToken: surplus.token, toChain: deficit.chain, toToken: deficit.token, amountUSD });
+    surplus.valueUSD -= amountUSD;
+    deficit.valueUSD += amountUSD;
+  }
+
+  return moves;
+}
+
+// Why moves can't run now, or null during a quiet period (a manual rebalance skips the quiet period)
+function getBusyReason(manual: boolean = false): string | null {
+  if (depegBreaker.tripped) {
+    return 'depeg circuit breaker tripped';
+  }
+  if (isKillSwitchEngaged()) {
+    return 'kill switch engaged';
+  }
+  if (pendingTransfers.length > 0) {
+    return `${pendingTransfers.length} transfer(s) in transit`;
+  }
+  if (manual) {
+    return null;
+  }
+
+  const lastTrade = paperTrades.reduce((latest, trade) => Math.max(latest, trade.timestamp), 0);
+  if (now() - lastTrade < CONFIG.REBALANCE_QUIET_MS) {
+    return `last arbitrage trade ${((now() - lastTrade) / 1000).toFixed(0)}s ago`;
+  }
+  if (now() - lastRebalanceAttempt < CONFIG.REBALANCE_QUIET_MS) {
+    return `last rebalance ${((now() - lastRebalanceAttempt) / 1000).toFixed(0)}s ago`;
+  }
+
+  return null;
+}
+
+// Best fill for swapping one token for another on a chain
+function quoteBestSwap(chain: string, tokenIn: string, tokenOut: string, amount: number): SwapQuote {
+  const quotes = getRegisteredPools()
+    .filter(pool => pool.chain === chain && pool.tokens.includes(tokenIn) && pool.tokens.includes(tokenOut) && poolStates[pool.id])
+    .flatMap(pool => {
+      try {
+        return [quoteSwap(pool.id, tokenIn, amount)];
+      } catch {
+        return [];
+      }
+    });
+
+  if (quotes.length === 0) {
+    throw new Error(`no pool on ${chain} can fill ${amount.toFixed(2)} ${tokenIn} for ${tokenOut}`);
+  }
+  return quotes.reduce((best, quote) => quote.amountOut > best.amountOut ? quote : best);
+}
+
+function getPriceUSD(chain: string, token: string): number {
+  const price = getTokenPriceUSD(chain, token);
+  if (price === undefined) {
+    throw new Error(`no USD price for ${token} on ${chain}`);
+  }
+  return price;
+}
+
+// Cost a move the way trades are costed: simulated swap fill, estimated gas and the bridge fee
+async function quoteMove(move: PlannedMove): Promise<MoveQuote> {
+  const fromPrice = getPriceUSD(move.fromChain, move.fromToken);
+  const amount = move.amountUSD / fromPrice;
+
+  const swap = move.fromToken !== move.toToken ? quoteBestSwap(move.fromChain, move.fromToken, move.toToken, amount) : null;
+  const amountOut = swap ? swap.amountOut : amount;
+
+  let bridge: BridgeQuote | null = null;
+  if (move.fromChain !== move.toChain) {
+    if (!getExecutionBackend().crossChain) {
+      throw new Error(`${getExecutionBackend().mode} execution has no bridge step, moves between chains are paper-only`);
+    }
+    bridge = getBestBridgeQuote(move.toToken, move.fromChain, move.toChain, amountOut);
+    if (!bridge) {
+      throw new Error(`no bridge route for ${amountOut.toFixed(2)} ${move.toToken} from ${move.fromChain} to ${move.toChain}`);
+    }
+  }
+
+  const swapCost = swap
+    ? swap.amountIn * fromPrice - swap.amountOut * getPriceUSD(move.fromChain, move.toToken)
+    : 0;
+  const gasCost = await getRouteGasCostUSD(await estimateMoveGas(swap, bridge));
+  const bridgeCost = bridge?.feeUSD ?? 0;
+
+  return { amount, amountOut, swap, bridge, swapCost, gasCost, bridgeCost, totalCost: swapCost + gasCost + bridgeCost };
+}
+
+function recordRebalanceMove(move: RebalanceMove): void {
+  const index = rebalanceMoves.findIndex(existing => existing.id === move.id);
+  if (index === -1) {
+    rebalanceMoves.push(move);
+  } else {
+    rebalanceMoves[index] = move;
+  }
+  appendLedgerEvent({ type: 'rebalance', move });
+}
+
+async function executeMove(planned: PlannedMove): Promise<void> {
+  const quote = await quoteMove(planned);
+
+  const maxCost = planned.amountUSD * CONFIG.REBALANCE_MAX_COST_BPS / 10000;
+  if (quote.totalCost > maxCost) {
+    log(`Skipping rebalance of ${describeMove(planned)}: cost $${quote.totalCost.toFixed(4)} exceeds ${CONFIG.REBALANCE_MAX_COST_BPS} bps ($${maxCost.toFixed(4)})`, 'warn');
+    return;
+  }
+
+  if (getTokenBalance(planned.fromChain, planned.fromToken) < quote.amount) {
+    throw new Error(`insufficient ${planned.fromToken} on ${planned.fromChain}`);
+  }
+
+  const amountOut = quote.swap ? (await getExecutionBackend().executeSwap(quote.swap)).amountOut : quote.amountOut;
+
+  // Spend the source token; a swapped token stays on the source chain unless it's bridged away
+  adjustPaperBalance(planned.fromChain, planned.fromToken, -quote.amount);
+  if (!quote.bridge) {
+    adjustPaperBalance(planned.fromChain, planned.toToken, amountOut);
+  }
+
+  const move: RebalanceMove = {
+    id: `rebalance_${now()}_${Math.random().toString(36).substr(2, 9)}`,
+    fromChain: planned.fromChain,
+    fromToken: planned.fromToken,
+    toChain: planned.toChain,
+    toToken: planned.toToken,
+    amount: quote.amount,
+    amountOut,
+    pool: quote.swap?.pool,
+    bridge: quote.bridge?.bridge,
+    swapCost: quote.swapCost,
+    gasCost: quote.gasCost,
+    bridgeCost: quote.bridgeCost,
+    totalCost: quote.totalCost,
+    status: quote.bridge ? 'in-transit' : 'completed',
+    timestamp: now(),
+    completedAt: quote.bridge ? undefined : now(),
+  };
+  recordRebalanceMove(move);
+
+  if (quote.bridge) {
+    startBridgeTransfer({
+      tradeId: move.id,
+      token: planned.toToken,
+      amount: amountOut,
+      fromChain: planned.fromChain,
+      toChain: planned.toChain,
+      bridge: quote.bridge.bridge,
+      arrivalTime: now() + quote.bridge.settlementTimeSec * 1000,
+    });
+  }
+
+  log(`⚖️  Rebalanced ${describeMove(planned)}: ${quote.amount.toFixed(4)} ${planned.fromToken} → ${amountOut.toFixed(4)} ${planned.toToken}${move.pool ? ` via ${move.pool}` : ''}${move.bridge ? ` over ${move.bridge}` : ''}, cost $${quote.totalCost.toFixed(4)} (swap $${quote.swapCost.toFixed(4)}, gas $${quote.gasCost.toFixed(4)}, bridge $${quote.bridgeCost.toFixed(4)})`);
+}
+
+// Mark a rebalancing transfer's move completed once its tokens arrive (the balance is credited by the settlement)
+export function completeRebalanceMove(moveId: string): void {
+  const move = rebalanceMoves.find(existing => existing.id === moveId);
+  if (!move) {
+    log(`Cannot complete unknown rebalance move ${moveId}`, 'error');
+    return;
+  }
+  recordRebalanceMove({ ...move, status: 'completed', completedAt: now() });
+}
+
+// Schedule moves whenever inventory drifts past the threshold, and run them once no trade is open or recent
+export async function rebalanceInventory(): Promise<void> {
+  if (!CONFIG.REBALANCE) {
+    return;
+  }
+
+  const wasScheduled = scheduledMoves.length > 0;
+  scheduledMoves.splice(0, scheduledMoves.length, ...planRebalance());
+  if (scheduledMoves.length === 0) {
+    return;
+  }
+
+  const busyReason = getBusyReason();
+  if (busyReason) {
+    if (!wasScheduled) {
+      log(`⚖️  Inventory drifted past ${CONFIG.REBALANCE_DRIFT_BPS} bps, ${scheduledMoves.length} move(s) scheduled for the next quiet period (${busyReason}): ${scheduledMoves.map(describeMove).join('; ')}`);
+    }
+    return;
+  }
+
+  await executeMoves(scheduledMoves.splice(0));
+}
+
+// Rebalance now at an operator's request, without waiting for a quiet period; throws when moves can't run
+export async function rebalanceNow(): Promise<PlannedMove[]> {
+  const busyReason = getBusyReason(true);
+  if (busyReason) {
+    throw new Error(`Rebalance blocked: ${busyReason}`);
+  }
+
+  const moves = planRebalance();
+  scheduledMoves.splice(0);
+  log(`⚖️  Manual rebalance: ${moves.length > 0 ? moves.map(describeMove).join('; ') : `no holding has drifted past ${CONFIG.REBALANCE_DRIFT_BPS} bps`}`);
+  await executeMoves(moves);
+  return moves;
+}
+
+async function executeMoves(moves: PlannedMove[]): Promise<void> {
+  if (moves.length === 0) {
+    return;
+  }
+
+  lastRebalanceAttempt = now();
+  for (const move of moves) {
+    try {
+      await executeMove(move);
+    } catch (error) {
+      log(`Rebalance of ${describeMove(move)} failed: ${error}`, 'error');
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { appendFileSync, mkdirSync } from 'fs';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import { CONFIG, CHAIN_CONFIGS } from './clients';
+import { log, now } from './utils';
+import { poolStates, gasCosts, lastBlockNumbers, priceHealth, getUSDPrice } from './getters';
+import { STABLECOINS } from './depeg';
+import { getNonStableTokens } from './valuation';
+import { serializePoolState, type MarketSnapshot, type ChainSnapshot } from './snapshots';
+import type { ArbitrageDecision } from './arbitrage';
+
+// Native USD price for a snapshot, or why it was unavailable
+export async function getNativeUsdPrice(chainName: string, blockNumber?: bigint): Promise<Pick<ChainSnapshot, 'nativeUsdPrice' | 'priceUnavailable'>> {
+  try {
+    return { nativeUsdPrice: await getUSDPrice(chainName, CHAIN_CONFIGS[chainName].nativeCurrency.symbol, blockNumber) };
+  } catch (error) {
+    return { priceUnavailable: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Last prices of the given tokens read from this chain's own feeds (null while unavailable), or undefined if none were read
+function getFeedPrices(chainName: string, tokens: readonly string[]): Record<string, number | null> | undefined {
+  const prices = Object.fromEntries(
+    tokens
+      .map(token => priceHealth[`${chainName}-${token}`])
+      .filter(health => health !== undefined)
+      .map(health => [health.asset, health.status === 'ok' ? health.price! : null])
+  );
+  return Object.keys(prices).length > 0 ? prices : undefined;
+}
+
+// Last stablecoin and other traded token prices read from this chain's own feeds
+function getTokenUsdPrices(chainName: string): Pick<ChainSnapshot, 'stablecoinUsdPrices' | 'tokenUsdPrices'> {
+  const stablecoinUsdPrices = getFeedPrices(chainName, STABLECOINS);
+  const tokenUsdPrices = getFeedPrices(chainName, getNonStableTokens());
+  return { ...(stablecoinUsdPrices && { stablecoinUsdPrices }), ...(tokenUsdPrices && { tokenUsdPrices }) };
+}
+
+// Build a snapshot of the cached market data the last check decided on
+export async function buildMarketSnapshot(decisions: ArbitrageDecision[]): Promise<MarketSnapshot> {
+  const snapshot: MarketSnapshot = { timestamp: now(), pools: {}, chains: {}, decisions };
+
+  for (const [poolId, { metadata, state }] of Object.entries(poolStates)) {
+    snapshot.pools[poolId] = serializePoolState(metadata, state, lastBlockNumbers[metadata.chain]);
+  }
+
+  for (const [chainName, gasCost] of Object.entries(gasCosts)) {
+    const blockNumber = lastBlockNumbers[chainName];
+    snapshot.chains[chainName] = {
+      ...(blockNumber !== undefined && { blockNumber: blockNumber.toString() }),
+      gasPrice: gasCost.gasPrice.toString(),
+      ...await getNativeUsdPrice(chainName),
+      ...getTokenUsdPrices(chainName),
+    };
+  }
+
+  return snapshot;
+}
+
+// Append a snapshot to the day's file; each line is its own gzip member so a crash never corrupts earlier ones
+export async function recordMarketSnapshot(decisions: ArbitrageDecision[]): Promise<void> {
+  if (!CONFIG.RECORD_SNAPSHOTS) {
+    return;
+  }
+
+  try {
+    const snapshot = await buildMarketSnapshot(decisions);
+    const day = new Date(snapshot.timestamp).toISOString().slice(0, 10);
+    const filePath = path.join(CONFIG.SNAPSHOT_PATH, `${day}.jsonl.gz`);
+
+    mkdirSync(CONFIG.SNAPSHOT_PATH, { recursive: true });
+    appendFileSync(filePath, gzipSync(`${JSON.stringify(snapshot)}\n`));
+  } catch (error) {
+    log(`Failed to record market snapshot: ${error}`, 'error');
+  }
+}
@@ -0,0 +1,220 @@
+import { readFileSync } from 'fs';
+import { CONFIG } from './clients';
+import { log } from './utils';
+import type { StaticBridgeConfig } from './bridges';
+import { POOL_TYPES, RESERVES_POOL_TYPES, type PoolType } from './pools';
+
+// Declarative registry of chains, DEXes, pools and token aliases (see config/registry.json)
+export interface RegistryToken {
+  aliases: string[]; // On-chain symbols that all refer to this token (e.g. USDC and USDC.e)
+  paperBalance?: number; // Starting paper trading balance on every chain that lists the token
+}
+
+export interface RegistryChainToken {
+  address?: string; // Optional: validated against the pool's token0()/token1() when set
+  decimals?: number;
+}
+
+export interface RegistryDex {
+  router?: string; // Swap router used for live execution
+  routerPoolKey?: 'fee' | 'tickSpacing'; // How exactInputSingle identifies a uniswap-v3 pool (Uniswap V3 style by fee, Ramses V3 style by tick spacing)
+}
+
+export interface RegistryChain {
+  tokens: Record<string, RegistryChainToken>;
+  dexes: Record<string, RegistryDex>;
+}
+
+export interface RegistryPool {
+  id: string;
+  chain: string;
+  dex: string;
+  address: string;
+  tokens: [string, string]; // Canonical token symbols traded by the pool (order doesn't matter)
+  type?: PoolType; // How the pool is priced, quoted and swapped through (default uniswap-v3)
+  fee?: number;    // Swap fee in hundredths of a bip (3000 = 0.3%), required for uniswap-v2 and solidly-stable pools
+}
+
+export interface Registry {
+  tokens: Record<string, RegistryToken>;
+  chains: Record<string, RegistryChain>;
+  pools: RegistryPool[];
+  bridges?: StaticBridgeConfig[];
+}
+
+let registry: Registry | null = null;
+
+// Load and structurally validate the registry file
+export function loadRegistry(path: string = CONFIG.REGISTRY_PATH): Registry {
+  let parsed: Registry;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read pool registry at ${path}: ${error}`);
+  }
+
+  validateRegistryShape(parsed);
+  registry = parsed;
+
+  log(`📚 Loaded pool registry from ${path}: ${Object.keys(parsed.chains).length} chains, ${parsed.pools.length} pools`);
+  return parsed;
+}
+
+export function getRegistry(): Registry {
+  return registry ?? loadRegistry();
+}
+
+function validateRegistryShape(candidate: Registry): void {
+  if (!candidate.tokens || !candidate.chains || !Array.isArray(candidate.pools)) {
+    throw new Error('Pool registry must define "tokens", "chains" and "pools"');
+  }
+
+  for (const [symbol, token] of Object.entries(candidate.tokens)) {
+    if (token.paperBalance !== undefined && (typeof token.paperBalance !== 'number' || token.paperBalance < 0)) {
+      throw new Error(`Invalid paperBalance for ${symbol}: ${token.paperBalance}`);
+    }
+  }
+
+  const seenIds = new Set<string>();
+  for (const pool of candidate.pools) {
+    if (!pool.id || !pool.chain || !pool.dex || !pool.address || !Array.isArray(pool.tokens) || pool.tokens.length !== 2) {
+      throw new Error(`Invalid pool entry in registry: ${JSON.stringify(pool)}`);
+    }
+    if (seenIds.has(pool.id)) {
+      throw new Error(`Duplicate pool id in registry: ${pool.id}`);
+    }
+    seenIds.add(pool.id);
+
+    if (pool.type !== undefined && !POOL_TYPES.includes(pool.type)) {
+      throw new Error(`Pool ${pool.id} has unknown type ${pool.type} (expected one of ${POOL_TYPES.join(', ')})`);
+    }
+    if (pool.fee !== undefined && (typeof pool.fee !== 'number' || pool.fee < 0 || pool.fee >= 1_000_000)) {
+      throw new Error(`Invalid fee for pool ${pool.id}: ${pool.fee}`);
+    }
+    if (pool.type && RESERVES_POOL_TYPES.includes(pool.type) && pool.fee === undefined) {
+      throw new Error(`Pool ${pool.id} is a ${pool.type} pool and needs a "fee" (its fee isn't read on-chain)`);
+    }
+
+    const chain = candidate.chains[pool.chain];
+    if (!chain) {
+      throw new Error(`Pool ${pool.id} references unknown chain ${pool.chain}`);
+    }
+    if (!chain.dexes?.[pool.dex]) {
+      throw new Error(`Pool ${pool.id} references unknown DEX ${pool.dex} on ${pool.chain}`);
+    }
+    for (const token of pool.tokens) {
+      if (!candidate.tokens[token]) {
+        throw new Error(`Pool ${pool.id} references unknown token ${token}`);
+      }
+    }
+  }
+
+  for (const [chainName, chain] of Object.entries(candidate.chains)) {
+    for (const [dexName, dex] of Object.entries(chain.dexes ?? {})) {
+      if (dex.router !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(dex.router)) {
+        throw new Error(`Invalid router address for ${dexName} on ${chainName}: ${dex.router}`);
+      }
+    }
+  }
+
+  for (const bridge of candidate.bridges ?? []) {
+    const numericFields = ['fixedFeeUSD', 'feeBps', 'minAmount', 'maxAmount', 'settlementTimeSec'] as const;
+    if (!bridge.name || !Array.isArray(bridge.tokens) || !Array.isArray(bridge.chains) || numericFields.some(field => typeof bridge[field] !== 'number')) {
+      throw new Error(`Invalid bridge entry in registry: ${JSON.stringify(bridge)}`);
+    }
+    for (const token of bridge.tokens) {
+      if (!candidate.tokens[token]) {
+        throw new Error(`Bridge ${bridge.name} references unknown token ${token}`);
+      }
+    }
+    for (const [chainName, contracts] of Object.entries(bridge.contracts ?? {})) {
+      for (const address of [contracts.tokenMessenger, ...Object.values(contracts.oft ?? {})]) {
+        if (address !== undefined && !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+          throw new Error(`Invalid contract address for bridge ${bridge.name} on ${chainName}: ${address}`);
+        }
+      }
+    }
+  }
+}
+
+export function getRegisteredDex(chainName: string, dexName: string): RegistryDex {
+  const dex = getRegistry().chains[chainName]?.dexes[dexName];
+  if (!dex) {
+    throw new Error(`No registered DEX ${dexName} on ${chainName}`);
+  }
+  return dex;
+}
+
+// Map an on-chain symbol (USDC.e, USDt, ...) to its canonical registry symbol
+export function resolveTokenAlias(symbol: string): string {
+  const { tokens } = getRegistry();
+  const lower = symbol.toLowerCase();
+
+  for (const [canonical, token] of Object.entries(tokens)) {
+    if (canonical.toLowerCase() === lower || token.aliases.some(alias => alias.toLowerCase() === lower)) {
+      return canonical;
+    }
+  }
+
+  return symbol;
+}
+
+export function getRegisteredPools(): RegistryPool[] {
+  return getRegistry().pools;
+}
+
+export function getRegisteredPool(poolId: string): RegistryPool {
+  const pool = getRegistry().pools.find(p => p.id === poolId);
+  if (!pool) {
+    throw new Error(`No registered pool with id ${poolId}`);
+  }
+  return pool;
+}
+
+// Chains that have at least one registered pool
+export function getRegisteredChains(): string[] {
+  return [...new Set(getRegistry().pools.map(pool => pool.chain))];
+}
+
+// Check on-chain token addresses, symbols and decimals against the registry
+export function validatePoolTokens(
+  pool: RegistryPool,
+  onChainTokens: Array<{ symbol: string; decimals: number; address: string }>
+): void {
+  const chainTokens = getRegistry().chains[pool.chain].tokens;
+  const remaining = [...pool.tokens];
+
+  for (const onChain of onChainTokens) {
+    const canonical = resolveTokenAlias(onChain.symbol);
+    const index = remaining.indexOf(canonical);
+    if (index === -1) {
+      throw new Error(`Pool ${pool.id}: on-chain token ${onChain.symbol} (${onChain.address}) is not one of ${pool.tokens.join('/')}`);
+    }
+    remaining.splice(index, 1);
+
+    const expected = chainTokens[canonical];
+    if (expected?.address && expected.address.toLowerCase() !== onChain.address.toLowerCase()) {
+      throw new Error(`Pool ${pool.id}: ${canonical} address mismatch (registry ${expected.address}, on-chain ${onChain.address})`);
+    }
+    if (expected?.decimals !== undefined && expected.decimals !== onChain.decimals) {
+      throw new Error(`Pool ${pool.id}: ${canonical} decimals mismatch (registry ${expected.decimals}, on-chain ${onChain.decimals})`);
+    }
+  }
+}
+
+// Every pair of pools on different chains that trade the same two tokens (tokenA/tokenB, or any pair when omitted)
+export function getCrossChainPoolPairs(tokenA?: string, tokenB?: string): Array<[RegistryPool, RegistryPool]> {
+  const pools = getRegistry().pools.filter(pool => (!tokenA || pool.tokens.includes(tokenA)) && (!tokenB || pool.tokens.includes(tokenB)));
+  const pairs: Array<[RegistryPool, RegistryPool]> = [];
+  const sameTokens = (a: RegistryPool, b: RegistryPool) => a.tokens.every(token => b.tokens.includes(token));
+
+  for (let i = 0; i < pools.length; i++) {
+    for (let j = i + 1; j < pools.length; j++) {
+      if (pools[i].chain !== pools[j].chain && sameTokens(pools[i], pools[j])) {
+        pairs.push([pools[i], pools[j]]);
+      }
+    }
+  }
+
+  return pairs;
+}
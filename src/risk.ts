@@ -0,0 +1,134 @@
+import { existsSync } from 'fs';
+import { CONFIG } from './clients';
+import { log, now } from './utils';
+import { getTokenValueUSD } from './valuation';
+import { emitAlert } from './alerts';
+import type { ArbitrageDecision, PaperTrade, PendingTransfer } from './arbitrage';
+
+// A trade about to be executed, as the risk manager sees it
+export interface TradeProposal {
+  strategy: ArbitrageDecision['strategy'];
+  buyPool: string;
+  sellPool: string;
+  sourceChain: string;
+  targetChain: string;
+  bridge?: string;
+  token: string; // Token the trade starts with
+  amount: number;
+}
+
+export type RiskLimit =
+  | 'kill-switch'
+  | 'max-notional'
+  | 'max-chain-exposure'
+  | 'max-bridge-exposure'
+  | 'max-daily-loss'
+  | 'max-trades-per-hour';
+
+export interface RiskDecision {
+  approved: boolean;
+  limit?: RiskLimit; // The limit that rejected the trade
+  reason?: string;
+}
+
+const HOUR_MS = 3600000;
+
+// What engaged the in-process kill switch (SIGUSR2 or the control API); the KILL_SWITCH_PATH file works independently
+let killSwitchSource: string | null = null;
+
+// Engage or release the in-process kill switch; monitoring keeps running either way
+export function setKillSwitch(engaged: boolean, source: string): void {
+  killSwitchSource = engaged ? source : null;
+  log(engaged ? `🛑 Kill switch engaged by ${source}: new trades blocked` : `✅ Kill switch released by ${source}`, 'warn');
+}
+
+// Toggle the kill switch with `kill -USR2 <pid>`
+export function setupKillSwitch(): void {
+  process.on('SIGUSR2', () => setKillSwitch(killSwitchSource === null, 'SIGUSR2'));
+}
+
+// What is holding the kill switch, or null when trading is allowed
+export function getKillSwitchReason(): string | null {
+  return killSwitchSource ?? (existsSync(CONFIG.KILL_SWITCH_PATH) ? CONFIG.KILL_SWITCH_PATH : null);
+}
+
+export function isKillSwitchEngaged(): boolean {
+  return getKillSwitchReason() !== null;
+}
+
+// USD notional of trades still waiting for their second leg, by chain they touch (trades from before
+// multi-token support started with a stablecoin and count at par)
+function getOpenChainExposure(trades: PaperTrade[], chain: string): number {
+  return trades
+    .filter(trade => trade.status === 'pending' && (trade.sourceChain === chain || trade.targetChain === chain))
+    .reduce((sum, trade) => sum + (trade.token ? getTokenValueUSD(trade.sourceChain, trade.token, trade.amount) : trade.amount), 0);
+}
+
+// USD value of funds currently in transit through a bridge
+function getBridgeExposure(transfers: PendingTransfer[], bridge: string): number {
+  return transfers
+    .filter(transfer => transfer.status === 'in-transit' && transfer.bridge === bridge)
+    .reduce((sum, transfer) => sum + getTokenValueUSD(transfer.fromChain, transfer.token, transfer.amount), 0);
+}
+
+// Net realized loss of trades settled since UTC midnight (0 if today is profitable)
+export function getDailyRealizedLoss(trades: PaperTrade[]): number {
+  const startOfDay = new Date(now()).setUTCHours(0, 0, 0, 0);
+  const realized = trades
+    .filter(trade => trade.status !== 'pending' && (trade.settledAt ?? trade.timestamp) >= startOfDay)
+    .reduce((sum, trade) => sum + trade.netProfit, 0);
+  return Math.max(0, -realized);
+}
+
+function evaluate(proposal: TradeProposal, notionalUSD: number, trades: PaperTrade[], transfers: PendingTransfer[]): RiskDecision {
+  const killSwitchReason = getKillSwitchReason();
+  if (killSwitchReason) {
+    return { approved: false, limit: 'kill-switch', reason: `kill switch engaged (${killSwitchReason})` };
+  }
+
+  if (notionalUSD > CONFIG.RISK_MAX_NOTIONAL_USD) {
+    return { approved: false, limit: 'max-notional', reason: `notional $${notionalUSD.toFixed(2)} exceeds $${CONFIG.RISK_MAX_NOTIONAL_USD}` };
+  }
+
+  for (const chain of new Set([proposal.sourceChain, proposal.targetChain])) {
+    const exposure = getOpenChainExposure(trades, chain) + notionalUSD;
+    if (exposure > CONFIG.RISK_MAX_CHAIN_EXPOSURE_USD) {
+      return { approved: false, limit: 'max-chain-exposure', reason: `open exposure on ${chain} would be $${exposure.toFixed(2)}, above $${CONFIG.RISK_MAX_CHAIN_EXPOSURE_USD}` };
+    }
+  }
+
+  if (proposal.bridge) {
+    const exposure = getBridgeExposure(transfers, proposal.bridge) + notionalUSD;
+    if (exposure > CONFIG.RISK_MAX_BRIDGE_EXPOSURE_USD) {
+      return { approved: false, limit: 'max-bridge-exposure', reason: `in transit through ${proposal.bridge} would be $${exposure.toFixed(2)}, above $${CONFIG.RISK_MAX_BRIDGE_EXPOSURE_USD}` };
+    }
+  }
+
+  const dailyLoss = getDailyRealizedLoss(trades);
+  if (dailyLoss >= CONFIG.RISK_MAX_DAILY_LOSS_USD) {
+    return { approved: false, limit: 'max-daily-loss', reason: `realized loss today $${dailyLoss.toFixed(2)} has reached $${CONFIG.RISK_MAX_DAILY_LOSS_USD}` };
+  }
+
+  const tradesLastHour = trades.filter(trade => trade.timestamp > now() - HOUR_MS).length;
+  if (tradesLastHour >= CONFIG.RISK_MAX_TRADES_PER_HOUR) {
+    return { approved: false, limit: 'max-trades-per-hour', reason: `${tradesLastHour} trades in the last hour (max ${CONFIG.RISK_MAX_TRADES_PER_HOUR})` };
+  }
+
+  return { approved: true };
+}
+
+// Every trade must pass these limits before it's executed; rejections are logged with the limit hit
+export function checkTradeRisk(proposal: TradeProposal, trades: PaperTrade[], transfers: PendingTransfer[]): RiskDecision {
+  const notionalUSD = getTokenValueUSD(proposal.sourceChain, proposal.token, proposal.amount);
+  const decision = evaluate(proposal, notionalUSD, trades, transfers);
+  if (!decision.approved) {
+    emitAlert({
+      type: 'risk-limit',
+      severity: 'warning',
+      key: decision.limit,
+      message: `🛑 Risk check rejected ${proposal.strategy} ${proposal.buyPool} → ${proposal.sellPool} ($${notionalUSD.toFixed(2)}): ${decision.limit} - ${decision.reason}`,
+      details: { limit: decision.limit, reason: decision.reason }
+    }, { pool: [proposal.buyPool, proposal.sellPool] });
+  }
+  return decision;
+}
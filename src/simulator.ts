@@ -0,0 +1,275 @@
+// Concentrated-liquidity swap simulator (Uniswap V3 math, as used by Pharaoh and Shadow pools)
+
+// Tick bounds and sqrt price bounds from Uniswap V3 TickMath
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+const Q96 = 2n ** 96n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const FEE_DENOMINATOR = 1_000_000n; // Pool fees are expressed in hundredths of a bip
+
+// Snapshot of the on-chain state needed to walk a CL pool
+export interface ClPoolState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  fee: number;
+  tickSpacing: number;
+  // liquidityNet of every initialized tick inside the loaded range, keyed by tick
+  ticks: Map<number, bigint>;
+  // Range of ticks whose bitmap words were loaded; ticks outside it are unknown
+  minLoadedTick: number;
+  maxLoadedTick: number;
+  timestamp: number;
+}
+
+export interface SwapResult {
+  amountIn: bigint;      // Input actually consumed (including fee)
+  amountOut: bigint;
+  feeAmount: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  ticksCrossed: number;
+  complete: boolean;     // False if the swap ran past the loaded tick range
+}
+
+// Full-precision helpers (bigint is arbitrary precision, so mulDiv is just multiply then divide)
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator > 0n ? result + 1n : result;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  const result = a / b;
+  return a % b > 0n ? result + 1n : result;
+}
+
+// TickMath.getSqrtRatioAtTick
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick out of range: ${tick}`);
+  }
+
+  const absTick = BigInt(Math.abs(tick));
+  let ratio = (absTick & 0x1n) !== 0n ? 0xfffcb933bd6fad37aa2d162d1a594001n : 0x100000000000000000000000000000000n;
+  if ((absTick & 0x2n) !== 0n) ratio = (ratio * 0xfff97272373d413259a46990580e213an) >> 128n;
+  if ((absTick & 0x4n) !== 0n) ratio = (ratio * 0xfff2e50f5f656932ef12357cf3c7fdccn) >> 128n;
+  if ((absTick & 0x8n) !== 0n) ratio = (ratio * 0xffe5caca7e10e4e61c3624eaa0941cd0n) >> 128n;
+  if ((absTick & 0x10n) !== 0n) ratio = (ratio * 0xffcb9843d60f6159c9db58835c926644n) >> 128n;
+  if ((absTick & 0x20n) !== 0n) ratio = (ratio * 0xff973b41fa98c081472e6896dfb254c0n) >> 128n;
+  if ((absTick & 0x40n) !== 0n) ratio = (ratio * 0xff2ea16466c96a3843ec78b326b52861n) >> 128n;
+  if ((absTick & 0x80n) !== 0n) ratio = (ratio * 0xfe5dee046a99a2a811c461f1969c3053n) >> 128n;
+  if ((absTick & 0x100n) !== 0n) ratio = (ratio * 0xfcbe86c7900a88aedcffc83b479aa3a4n) >> 128n;
+  if ((absTick & 0x200n) !== 0n) ratio = (ratio * 0xf987a7253ac413176f2b074cf7815e54n) >> 128n;
+  if ((absTick & 0x400n) !== 0n) ratio = (ratio * 0xf3392b0822b70005940c7a398e4b70f3n) >> 128n;
+  if ((absTick & 0x800n) !== 0n) ratio = (ratio * 0xe7159475a2c29b7443b29c7fa6e889d9n) >> 128n;
+  if ((absTick & 0x1000n) !== 0n) ratio = (ratio * 0xd097f3bdfd2022b8845ad8f792aa5825n) >> 128n;
+  if ((absTick & 0x2000n) !== 0n) ratio = (ratio * 0xa9f746462d870fdf8a65dc1f90e061e5n) >> 128n;
+  if ((absTick & 0x4000n) !== 0n) ratio = (ratio * 0x70d869a156d2a1b890bb3df62baf32f7n) >> 128n;
+  if ((absTick & 0x8000n) !== 0n) ratio = (ratio * 0x31be135f97d08fd981231505542fcfa6n) >> 128n;
+  if ((absTick & 0x10000n) !== 0n) ratio = (ratio * 0x9aa508b5b7a84e1c677de54f3e99bc9n) >> 128n;
+  if ((absTick & 0x20000n) !== 0n) ratio = (ratio * 0x5d6af8dedb81196699c329225ee604n) >> 128n;
+  if ((absTick & 0x40000n) !== 0n) ratio = (ratio * 0x2216e584f5fa1ea926041bedfe98n) >> 128n;
+  if ((absTick & 0x80000n) !== 0n) ratio = (ratio * 0x48a170391f7dc42444e8fa2n) >> 128n;
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Convert from Q128.128 to Q64.96, rounding up
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+// TickMath.getTickAtSqrtRatio: greatest tick whose sqrt ratio is <= the given one
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`sqrtPriceX96 out of range: ${sqrtPriceX96}`);
+  }
+
+  // Floating-point estimate, then correct with the exact integer math
+  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
+  let tick = Math.floor(Math.log(sqrtPrice * sqrtPrice) / Math.log(1.0001));
+  tick = Math.min(Math.max(tick, MIN_TICK), MAX_TICK);
+
+  while (tick > MIN_TICK && getSqrtRatioAtTick(tick) > sqrtPriceX96) tick--;
+  while (tick < MAX_TICK && getSqrtRatioAtTick(tick + 1) <= sqrtPriceX96) tick++;
+
+  return tick;
+}
+
+// SqrtPriceMath
+function getAmount0Delta(sqrtRatioA: bigint, sqrtRatioB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtRatioA > sqrtRatioB) [sqrtRatioA, sqrtRatioB] = [sqrtRatioB, sqrtRatioA];
+
+  const numerator1 = liquidity << 96n;
+  const numerator2 = sqrtRatioB - sqrtRatioA;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioB), sqrtRatioA)
+    : mulDiv(numerator1, numerator2, sqrtRatioB) / sqrtRatioA;
+}
+
+function getAmount1Delta(sqrtRatioA: bigint, sqrtRatioB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtRatioA > sqrtRatioB) [sqrtRatioA, sqrtRatioB] = [sqrtRatioB, sqrtRatioA];
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtRatioB - sqrtRatioA, Q96)
+    : mulDiv(liquidity, sqrtRatioB - sqrtRatioA, Q96);
+}
+
+function getNextSqrtPriceFromInput(sqrtPriceX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  if (zeroForOne) {
+    // Token0 in: price moves down, rounding up
+    if (amountIn === 0n) return sqrtPriceX96;
+    const numerator1 = liquidity << 96n;
+    return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 + amountIn * sqrtPriceX96);
+  }
+
+  // Token1 in: price moves up, rounding down
+  return sqrtPriceX96 + (amountIn << 96n) / liquidity;
+}
+
+// SwapMath.computeSwapStep for exact-input swaps
+function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  fee: number
+): { sqrtRatioNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+  const feePips = BigInt(fee);
+
+  const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+    : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+
+  const reachesTarget = amountRemainingLessFee >= amountIn;
+  const sqrtRatioNextX96 = reachesTarget
+    ? sqrtRatioTargetX96
+    : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+
+  if (!reachesTarget) {
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+  }
+
+  const amountOut = zeroForOne
+    ? getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false)
+    : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+
+  // If the target wasn't reached the remainder is taken as fee
+  const feeAmount = sqrtRatioNextX96 !== sqrtRatioTargetX96
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+// Find the next initialized tick in the swap direction within the loaded range
+function nextInitializedTick(state: ClPoolState, sortedTicks: number[], tick: number, zeroForOne: boolean): { tickNext: number; initialized: boolean } {
+  if (zeroForOne) {
+    for (let i = sortedTicks.length - 1; i >= 0; i--) {
+      if (sortedTicks[i] <= tick) return { tickNext: sortedTicks[i], initialized: true };
+    }
+    return { tickNext: state.minLoadedTick, initialized: false };
+  }
+
+  for (const t of sortedTicks) {
+    if (t > tick) return { tickNext: t, initialized: true };
+  }
+  return { tickNext: state.maxLoadedTick, initialized: false };
+}
+
+// Walk the pool's ticks and compute the exact output for an exact-input swap
+export function simulateExactInput(state: ClPoolState, zeroForOne: boolean, amountIn: bigint): SwapResult {
+  const sortedTicks = [...state.ticks.keys()].sort((a, b) => a - b);
+  const sqrtPriceLimitX96 = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+  let amountRemaining = amountIn;
+  let amountOut = 0n;
+  let feeAmount = 0n;
+  let sqrtPriceX96 = state.sqrtPriceX96;
+  let tick = state.tick;
+  let liquidity = state.liquidity;
+  let ticksCrossed = 0;
+  let complete = true;
+
+  while (amountRemaining > 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const { tickNext, initialized } = nextInitializedTick(state, sortedTicks, tick, zeroForOne);
+    const boundedTickNext = Math.min(Math.max(tickNext, MIN_TICK), MAX_TICK);
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(boundedTickNext);
+
+    const target = zeroForOne
+      ? (sqrtPriceNextX96 < sqrtPriceLimitX96 ? sqrtPriceLimitX96 : sqrtPriceNextX96)
+      : (sqrtPriceNextX96 > sqrtPriceLimitX96 ? sqrtPriceLimitX96 : sqrtPriceNextX96);
+
+    const step = computeSwapStep(sqrtPriceX96, target, liquidity, amountRemaining, state.fee);
+    sqrtPriceX96 = step.sqrtRatioNextX96;
+    amountRemaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    feeAmount += step.feeAmount;
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      if (!initialized) {
+        // Reached the edge of the loaded bitmap words: liquidity beyond is unknown
+        tick = zeroForOne ? boundedTickNext - 1 : boundedTickNext;
+        complete = amountRemaining === 0n;
+        break;
+      }
+
+      const liquidityNet = state.ticks.get(boundedTickNext) ?? 0n;
+      liquidity = zeroForOne ? liquidity - liquidityNet : liquidity + liquidityNet;
+      ticksCrossed++;
+      tick = zeroForOne ? boundedTickNext - 1 : boundedTickNext;
+    } else {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  if (amountRemaining > 0n) {
+    complete = false;
+  }
+
+  return {
+    amountIn: amountIn - amountRemaining,
+    amountOut,
+    feeAmount,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    ticksCrossed,
+    complete,
+  };
+}
+
+// Ticks within a price move of rangeBps either way of the current tick (a 1 bp move is about one tick)
+export function getTickRange(tick: number, rangeBps: number): { minTick: number; maxTick: number } {
+  // A fall of rangeBps takes more ticks than a rise of the same size, so both sides use it
+  const ticks = Math.ceil(-Math.log(1 - Math.min(rangeBps, 9999) / 10000) / Math.log(1.0001));
+  return { minTick: Math.max(tick - ticks, MIN_TICK), maxTick: Math.min(tick + ticks, MAX_TICK) };
+}
+
+// Range of tick bitmap words around the current tick (each word covers 256 * tickSpacing ticks)
+export function getBitmapWordRange(tick: number, tickSpacing: number, wordsEachSide: number): { minWord: number; maxWord: number } {
+  const compressed = Math.floor(tick / tickSpacing);
+  const word = compressed >> 8;
+  return { minWord: word - wordsEachSide, maxWord: word + wordsEachSide };
+}
+
+// Decode the initialized ticks set in a bitmap word
+export function getTicksInBitmapWord(word: number, bitmap: bigint, tickSpacing: number): number[] {
+  const ticks: number[] = [];
+  for (let bit = 0; bit < 256; bit++) {
+    if (((bitmap >> BigInt(bit)) & 1n) === 1n) {
+      ticks.push((word * 256 + bit) * tickSpacing);
+    }
+  }
+  return ticks;
+}
@@ -0,0 +1,142 @@
+import { log } from './utils';
+import { type SwapQuote } from './getters';
+
+// Number of log-spaced sizes evaluated before refining around the best one
+const GRID_POINTS = 24;
+// Golden-section iterations used to refine the best grid bracket
+const REFINE_ITERATIONS = 30;
+// Sizes around the optimum (as multiples of it) logged to explain the choice
+const CURVE_MULTIPLIERS = [0.25, 0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 2];
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// Every leg of a round trip for a given input size, in order (the last leg returns the start token)
+export type QuoteLegs = (amountIn: number) => SwapQuote[];
+
+export interface TradeCosts {
+  gasUSD: number;
+  startTokenUSD: number; // USD value of one unit of the start token, to value gross profit
+  // Bridge fee for the amount the legs carry between chains, or null if no bridge can carry it
+  bridgeUSD: (legs: SwapQuote[]) => number | null;
+}
+
+export interface SizingPoint {
+  amount: number;
+  amountOut: number;
+  grossProfit: number; // In the start token
+  bridgeFee: number;
+  netProfit: number; // In USD
+  slippage: number; // Percentage of output lost versus filling both legs at spot
+}
+
+export interface TradeSizeSolution extends SizingPoint {
+  curve: SizingPoint[];
+}
+
+// Round to 6 decimals, the precision trade sizes are quoted in
+function roundAmount(amount: number): number {
+  return Math.floor(amount * 1000000) / 1000000;
+}
+
+// Evaluate a round trip at a given size; sizes the pools can't fill are infeasible
+function evaluateSize(quoteLegs: QuoteLegs, costs: TradeCosts, amount: number): SizingPoint | null {
+  try {
+    const legs = quoteLegs(amount);
+    const amountOut = legs[legs.length - 1].amountOut;
+    const spotAmountOut = legs.reduce((out, leg) => out * leg.spotPrice, amount);
+    const grossProfit = amountOut - amount;
+    const bridgeFee = costs.bridgeUSD(legs);
+    if (bridgeFee === null) {
+      return null;
+    }
+
+    return {
+      amount,
+      amountOut,
+      grossProfit,
+      bridgeFee,
+      netProfit: grossProfit * costs.startTokenUSD - costs.gasUSD - bridgeFee,
+      slippage: spotAmountOut > 0 ? (1 - amountOut / spotAmountOut) * 100 : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Find the trade size that maximizes net USD profit within [minAmount, maxAmount]
+export function solveOptimalTradeSize(
+  quoteLegs: QuoteLegs,
+  costs: TradeCosts,
+  minAmount: number,
+  maxAmount: number
+): TradeSizeSolution | null {
+  if (maxAmount < minAmount || minAmount <= 0) {
+    return null;
+  }
+
+  const netProfitAt = (amount: number): number =>
+    evaluateSize(quoteLegs, costs, roundAmount(amount))?.netProfit ?? -Infinity;
+
+  // Coarse log-spaced scan: profit curves are unimodal in theory but tick crossings make them kinked
+  const ratio = maxAmount / minAmount;
+  const grid = Array.from({ length: GRID_POINTS }, (_, i) => minAmount * Math.pow(ratio, i / (GRID_POINTS - 1)));
+  const gridProfits = grid.map(netProfitAt);
+
+  let bestIndex = 0;
+  gridProfits.forEach((profit, i) => {
+    if (profit > gridProfits[bestIndex]) bestIndex = i;
+  });
+
+  if (gridProfits[bestIndex] === -Infinity) {
+    return null;
+  }
+
+  // Golden-section refinement between the best point's neighbours
+  let low = grid[Math.max(bestIndex - 1, 0)];
+  let high = grid[Math.min(bestIndex + 1, grid.length - 1)];
+  let x1 = high - GOLDEN_RATIO * (high - low);
+  let x2 = low + GOLDEN_RATIO * (high - low);
+  let f1 = netProfitAt(x1);
+  let f2 = netProfitAt(x2);
+
+  for (let i = 0; i < REFINE_ITERATIONS; i++) {
+    if (f1 < f2) {
+      low = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = low + GOLDEN_RATIO * (high - low);
+      f2 = netProfitAt(x2);
+    } else {
+      high = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = high - GOLDEN_RATIO * (high - low);
+      f1 = netProfitAt(x1);
+    }
+  }
+
+  // Keep whichever is better: the refined optimum or the best grid point
+  const refinedAmount = roundAmount((low + high) / 2);
+  const refined = evaluateSize(quoteLegs, costs, refinedAmount);
+  const gridBest = evaluateSize(quoteLegs, costs, roundAmount(grid[bestIndex]))!;
+  const best = refined && refined.netProfit > gridBest.netProfit ? refined : gridBest;
+
+  // Sample the curve around the chosen size
+  const curve = CURVE_MULTIPLIERS
+    .map(multiplier => Math.min(Math.max(best.amount * multiplier, minAmount), maxAmount))
+    .filter((amount, i, amounts) => amounts.indexOf(amount) === i)
+    .map(amount => evaluateSize(quoteLegs, costs, roundAmount(amount)))
+    .filter((point): point is SizingPoint => point !== null);
+
+  return { ...best, curve };
+}
+
+// Log the chosen size and the profit curve around it
+export function logTradeSizeSolution(label: string, solution: TradeSizeSolution, token: string): void {
+  log(`${label} optimal size: ${solution.amount.toFixed(6)} ${token} → net $${solution.netProfit.toFixed(6)} (gross ${solution.grossProfit.toFixed(6)} ${token}, bridge $${solution.bridgeFee.toFixed(4)}, slippage ${solution.slippage.toFixed(4)}%)`);
+  log(`  Profit curve:`);
+  for (const point of solution.curve) {
+    const marker = point.amount === solution.amount ? ' ◀' : '';
+    log(`    ${point.amount.toFixed(2).padStart(12)} ${token}: net $${point.netProfit.toFixed(6).padStart(12)}, slippage ${point.slippage.toFixed(4)}%${marker}`);
+  }
+}
@@ -0,0 +1,127 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import { gunzipSync, constants as zlibConstants } from 'zlib';
+import { log } from './utils';
+import { type PoolMetadata } from './getters';
+import { isReservesState, DEFAULT_POOL_TYPE, type PoolState } from './pools';
+import type { ArbitrageDecision } from './arbitrage';
+
+// Pool state at a point in time (bigints serialized as decimal strings)
+export interface ClPoolSnapshot {
+  metadata: PoolMetadata;
+  blockNumber?: string;
+  sqrtPriceX96: string;
+  tick: number;
+  liquidity: string;
+  fee: number;
+  tickSpacing: number;
+  ticks: Array<[number, string]>; // [tick, liquidityNet]
+  minLoadedTick: number;
+  maxLoadedTick: number;
+}
+
+export interface ReservesPoolSnapshot {
+  metadata: PoolMetadata;
+  blockNumber?: string;
+  reserve0: string;
+  reserve1: string;
+  fee: number;
+}
+
+export type PoolSnapshot = ClPoolSnapshot | ReservesPoolSnapshot;
+
+export interface ChainSnapshot {
+  blockNumber?: string;
+  gasPrice: string; // wei
+  nativeUsdPrice?: number;   // Absent while the price was unavailable
+  priceUnavailable?: string; // Why it was unavailable
+  stablecoinUsdPrices?: Record<string, number | null>; // From this chain's stablecoin feeds (null while unavailable)
+  tokenUsdPrices?: Record<string, number | null>;      // From this chain's feeds for the other traded tokens
+}
+
+// Everything the arbitrage decision path reads, for every registered pool and chain
+export interface MarketSnapshot {
+  timestamp: number;
+  pools: Record<string, PoolSnapshot>;
+  chains: Record<string, ChainSnapshot>;
+  decisions?: ArbitrageDecision[]; // What the bot decided on this data, and why (recorded live only)
+}
+
+export function serializePoolState(metadata: PoolMetadata, state: PoolState, blockNumber?: bigint): PoolSnapshot {
+  const block = blockNumber !== undefined ? { blockNumber: blockNumber.toString() } : {};
+  if (isReservesState(state)) {
+    return { metadata, ...block, reserve0: state.reserve0.toString(), reserve1: state.reserve1.toString(), fee: state.fee };
+  }
+
+  return {
+    metadata,
+    ...block,
+    sqrtPriceX96: state.sqrtPriceX96.toString(),
+    tick: state.tick,
+    liquidity: state.liquidity.toString(),
+    fee: state.fee,
+    tickSpacing: state.tickSpacing,
+    ticks: [...state.ticks].map(([tick, liquidityNet]) => [tick, liquidityNet.toString()]),
+    minLoadedTick: state.minLoadedTick,
+    maxLoadedTick: state.maxLoadedTick,
+  };
+}
+
+export function deserializePoolState(snapshot: PoolSnapshot, timestamp: number): PoolState {
+  if ('reserve0' in snapshot) {
+    return { reserve0: BigInt(snapshot.reserve0), reserve1: BigInt(snapshot.reserve1), fee: snapshot.fee, timestamp };
+  }
+
+  return {
+    sqrtPriceX96: BigInt(snapshot.sqrtPriceX96),
+    tick: snapshot.tick,
+    liquidity: BigInt(snapshot.liquidity),
+    fee: snapshot.fee,
+    tickSpacing: snapshot.tickSpacing,
+    ticks: new Map(snapshot.ticks.map(([tick, liquidityNet]) => [tick, BigInt(liquidityNet)])),
+    minLoadedTick: snapshot.minLoadedTick,
+    maxLoadedTick: snapshot.maxLoadedTick,
+    timestamp,
+  };
+}
+
+// Read snapshots from a JSONL file (optionally gzipped) or a directory of them, oldest first
+export function readSnapshots(snapshotPath: string): MarketSnapshot[] {
+  if (!existsSync(snapshotPath)) {
+    throw new Error(`No snapshot file or directory at ${snapshotPath}`);
+  }
+
+  const files = statSync(snapshotPath).isDirectory()
+    ? readdirSync(snapshotPath)
+      .filter(name => name.endsWith('.jsonl') || name.endsWith('.jsonl.gz'))
+      .sort()
+      .map(name => path.join(snapshotPath, name))
+    : [snapshotPath];
+
+  const snapshots: MarketSnapshot[] = [];
+  for (const file of files) {
+    const raw = readFileSync(file);
+    // Each recorded line is its own gzip member: a member torn by a crash mid-write decodes to a partial last
+    // line (skipped below) instead of failing the whole file
+    const lines = (file.endsWith('.gz') ? gunzipSync(raw, { finishFlush: zlibConstants.Z_SYNC_FLUSH }) : raw).toString('utf8').split('\n');
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      let snapshot: MarketSnapshot;
+      try {
+        snapshot = JSON.parse(line);
+      } catch {
+        log(`Skipping unreadable snapshot at ${file}:${index + 1}`, 'warn');
+        return;
+      }
+
+      // Pools recorded before pool types existed were all Uniswap V3 style
+      for (const pool of Object.values(snapshot.pools)) {
+        pool.metadata.type ??= DEFAULT_POOL_TYPE;
+      }
+      snapshots.push(snapshot);
+    });
+  }
+
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -1,15 +1,43 @@
 import { CONFIG } from './clients';
+import { log } from './logger';
+
+export { log, logWith, type LogLevel, type LogFields } from './logger';
 
 // Utility functions
+let clock: () => number = Date.now;
+
+// Current time in ms (the backtester replaces the clock with the replayed snapshot's time)
+export const now = (): number => clock();
+
+export function setClock(source: () => number): void {
+  clock = source;
+}
+
 export const sleep = (ms: number): Promise<void> =>
   new Promise(resolve => setTimeout(resolve, ms));
 
-export const log = (message: string, level: 'info' | 'warn' | 'error' = 'info') => {
-  const timestamp = new Date().toISOString();
-  const prefix = `[${timestamp}] [${level.toUpperCase()}]`;
-  console.log(`${prefix} ${message}`);
+// Upper bounds (seconds) of the withRetry attempt latency histogram
+export const RPC_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Attempts made through withRetry, for the metrics endpoint
+export const rpcCallStats = {
+  attempts: 0,
+  errors: 0,   // Attempts that threw (retried or not)
+  failures: 0, // Calls that still failed after every retry
+  latencySum: 0,
+  latencyBuckets: RPC_LATENCY_BUCKETS.map(() => 0), // Cumulative counts per bucket
 };
 
+function recordRpcAttempt(startedAt: number, failed: boolean): void {
+  const seconds = (Date.now() - startedAt) / 1000;
+  rpcCallStats.attempts++;
+  rpcCallStats.latencySum += seconds;
+  RPC_LATENCY_BUCKETS.forEach((bound, i) => {
+    if (seconds <= bound) rpcCallStats.latencyBuckets[i]++;
+  });
+  if (failed) rpcCallStats.errors++;
+}
+
 // Retry wrapper for API calls
 export async function withRetry<T>(
   fn: () => Promise<T>,
@@ -17,10 +45,15 @@ export async function withRetry<T>(
   delay: number = CONFIG.RETRY_DELAY
 ): Promise<T> {
   for (let i = 0; i <= maxRetries; i++) {
+    const startedAt = Date.now();
     try {
-      return await fn();
+      const result = await fn();
+      recordRpcAttempt(startedAt, false);
+      return result;
     } catch (error) {
+      recordRpcAttempt(startedAt, true);
       if (i === maxRetries) {
+        rpcCallStats.failures++;
         throw error;
       }
       log(`Attempt ${i + 1} failed, retrying in ${delay}ms...`, 'warn');
@@ -0,0 +1,42 @@
+import { getUSDPrice } from './getters';
+import { findPriceFeedChain } from './oracles';
+import { getRegisteredChains, getRegisteredPools } from './registry';
+import { isStablecoin, getStablecoinValue } from './depeg';
+
+// Last healthy USD price of each non-stable token per chain (stablecoins are priced by the depeg module)
+const tokenPrices: Record<string, Record<string, number>> = {};
+
+// Tokens traded by the registered pools that aren't priced by the depeg module
+export function getNonStableTokens(): string[] {
+  return [...new Set(getRegisteredPools().flatMap(pool => pool.tokens))].filter(token => !isStablecoin(token));
+}
+
+// Fetch the USD price of every non-stable token on every chain, from the chain's own feed or any chain's.
+// An unavailable price keeps the last healthy one for valuation; trading checks read the feed health themselves
+export async function refreshTokenPrices(tokens: string[]): Promise<void> {
+  for (const token of tokens.filter(token => !isStablecoin(token))) {
+    for (const chain of getRegisteredChains()) {
+      const feedChain = findPriceFeedChain(chain, token);
+      if (!feedChain) continue;
+
+      try {
+        (tokenPrices[chain] ??= {})[token] = await getUSDPrice(feedChain, token);
+      } catch {
+        // getUSDPrice has already logged why
+      }
+    }
+  }
+}
+
+// USD value of one unit of a token on a chain, or undefined if it has never been priced
+export function getTokenPriceUSD(chain: string, token: string): number | undefined {
+  if (isStablecoin(token)) {
+    return getStablecoinValue(chain, token);
+  }
+  return tokenPrices[chain]?.[token];
+}
+
+// USD value of an amount of a token, counting tokens that have never been priced as worthless
+export function getTokenValueUSD(chain: string, token: string, amount: number): number {
+  return amount * (getTokenPriceUSD(chain, token) ?? 0);
+}
@@ -0,0 +1,61 @@
+import './setup';
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeFunctionData, parseAbi, pad, zeroHash } from 'viem';
+import { createStaticFeeBridge, type BridgeQuote, type StaticBridgeConfig } from '../src/bridges';
+
+const SENDER = '0x00000000000000000000000000000000000000aa';
+const TOKEN_MESSENGER = '0x28b5a0e9C621a5BadaA536219b3a228C8168cf5d';
+// USDC on Avalanche in the shipped registry
+const AVALANCHE_USDC = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E';
+
+const cctp: StaticBridgeConfig = {
+  name: 'CCTP',
+  style: 'cctp',
+  tokens: ['USDC'],
+  chains: ['avalanche', 'sonic'],
+  fixedFeeUSD: 0,
+  feeBps: 0,
+  minAmount: 1,
+  maxAmount: 1000000,
+  settlementTimeSec: 900,
+  contracts: {
+    avalanche: { tokenMessenger: TOKEN_MESSENGER, domain: 1 },
+    sonic: { tokenMessenger: TOKEN_MESSENGER, domain: 13 },
+  },
+};
+
+function quote(fields: Partial<BridgeQuote> = {}): BridgeQuote {
+  return {
+    bridge: 'CCTP',
+    token: 'USDC',
+    fromChain: 'avalanche',
+    toChain: 'sonic',
+    amount: 1234.5,
+    feeUSD: 0,
+    minAmount: 1,
+    maxAmount: 1000000,
+    settlementTimeSec: 900,
+    ...fields,
+  };
+}
+
+describe('bridge transactions', () => {
+  test('burn USDC through CCTP to the sender on the destination domain', async () => {
+    const transaction = await createStaticFeeBridge(cctp).buildTransaction!(quote(), SENDER);
+
+    assert.equal(transaction?.to, TOKEN_MESSENGER);
+    const { functionName, args } = decodeFunctionData({
+      abi: parseAbi(['function depositForBurn(uint256 amount, uint32 destinationDomain, bytes32 mintRecipient, address burnToken, bytes32 destinationCaller, uint256 maxFee, uint32 minFinalityThreshold)']),
+      data: transaction!.data,
+    });
+    assert.equal(functionName, 'depositForBurn');
+    assert.deepEqual(args, [1_234_500_000n, 13, pad(SENDER, { size: 32 }), AVALANCHE_USDC, zeroHash, 0n, 2000]);
+  });
+
+  test('build nothing when the route\'s contracts are not registered', async () => {
+    const bridge = createStaticFeeBridge({ ...cctp, contracts: { avalanche: cctp.contracts!.avalanche } });
+    assert.equal(await bridge.buildTransaction!(quote(), SENDER), null);
+    assert.equal(await createStaticFeeBridge({ ...cctp, contracts: undefined }).buildTransaction!(quote(), SENDER), null);
+  });
+});
@@ -0,0 +1,162 @@
+import './setup';
+import { test, describe, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, existsSync, readdirSync, rmSync } from 'fs';
+import path from 'path';
+import { CONFIG } from '../src/clients';
+import { appendLedgerEvent, readLedger, type LedgerEvent } from '../src/ledger';
+import {
+  paperBalances,
+  paperTrades,
+  pendingTransfers,
+  restorePaperTradingState,
+  adjustPaperBalance,
+  getTokenBalance,
+  type PaperTrade,
+  type PendingTransfer,
+} from '../src/arbitrage';
+import { rebalanceMoves, type RebalanceMove } from '../src/rebalancer';
+
+// Forget the in-memory state and the ledger file, as on a fresh start
+function resetState(): void {
+  for (const chain of Object.keys(paperBalances)) {
+    delete paperBalances[chain];
+  }
+  paperTrades.splice(0);
+  pendingTransfers.splice(0);
+  rebalanceMoves.splice(0);
+}
+
+function write(...events: LedgerEvent[]): void {
+  events.forEach(appendLedgerEvent);
+}
+
+const trade: PaperTrade = {
+  id: 'trade_1',
+  sourceChain: 'avalanche',
+  targetChain: 'sonic',
+  sourcePool: 'pharaoh-avalanche-usdc-usdt',
+  targetPool: 'shadow-sonic-usdc-usdt',
+  token: 'USDC',
+  bridgeToken: 'USDT',
+  sourcePrice: 1,
+  targetPrice: 1.002,
+  amount: 1000,
+  profit: 2,
+  gasCost: 0.1,
+  bridge: 'Stargate',
+  bridgeCost: 0.25,
+  netProfit: 1.65,
+  timestamp: 1000,
+  status: 'pending',
+};
+
+const transfer: PendingTransfer = {
+  tradeId: 'trade_1',
+  token: 'USDT',
+  amount: 999,
+  fromChain: 'avalanche',
+  toChain: 'sonic',
+  toPool: 'shadow-sonic-usdc-usdt',
+  bridge: 'Stargate',
+  arrivalTime: 61000,
+  status: 'in-transit',
+};
+
+const move: RebalanceMove = {
+  id: 'rebalance_1',
+  fromChain: 'sonic',
+  fromToken: 'USDC',
+  toChain: 'avalanche',
+  toToken: 'USDC',
+  amount: 500,
+  amountOut: 500,
+  bridge: 'CCTP',
+  swapCost: 0,
+  gasCost: 0.05,
+  bridgeCost: 0,
+  totalCost: 0.05,
+  status: 'in-transit',
+  timestamp: 2000,
+};
+
+beforeEach(() => {
+  resetState();
+  rmSync(CONFIG.LEDGER_PATH, { force: true });
+});
+
+describe('ledger replay', () => {
+  test('restores the last balance of each chain, upgrading balances recorded per usdc/usdt field', () => {
+    write(
+      { type: 'balance', chain: 'avalanche', balance: { usdc: 100, usdt: 200, timestamp: 1 } },
+      { type: 'balance', chain: 'sonic', balance: { tokens: { USDC: 1 }, timestamp: 2 } },
+      { type: 'balance', chain: 'sonic', balance: { tokens: { USDC: 5, USDT: 6 }, timestamp: 3 } },
+    );
+
+    restorePaperTradingState();
+
+    assert.deepEqual(paperBalances.avalanche, { tokens: { USDC: 100, USDT: 200 }, timestamp: 1 });
+    assert.deepEqual(paperBalances.sonic, { tokens: { USDC: 5, USDT: 6 }, timestamp: 3 });
+  });
+
+  test('keeps the latest event for each trade and rebalance move', () => {
+    write(
+      { type: 'trade', trade },
+      { type: 'rebalance', move },
+      { type: 'trade', trade: { ...trade, id: 'trade_2', status: 'failed' } },
+      { type: 'trade', trade: { ...trade, status: 'executed', settledAt: 61000 } },
+      { type: 'rebalance', move: { ...move, status: 'completed', completedAt: 62000 } },
+    );
+
+    restorePaperTradingState();
+
+    assert.deepEqual(paperTrades.map(({ id, status }) => [id, status]), [['trade_1', 'executed'], ['trade_2', 'failed']]);
+    assert.equal(paperTrades[0].settledAt, 61000);
+    assert.equal(rebalanceMoves.length, 1);
+    assert.equal(rebalanceMoves[0].status, 'completed');
+  });
+
+  test('keeps transfers in transit until their settled event', () => {
+    write(
+      { type: 'transfer', transfer },
+      { type: 'transfer', transfer: { ...transfer, tradeId: 'trade_2' } },
+      { type: 'transfer', transfer: { ...transfer, status: 'settled' } },
+    );
+
+    restorePaperTradingState();
+
+    assert.deepEqual(pendingTransfers.map(({ tradeId }) => tradeId), ['trade_2']);
+  });
+
+  test('skips a torn final line', () => {
+    write({ type: 'trade', trade });
+    appendFileSync(CONFIG.LEDGER_PATH, '{"type":"trade","trade":{"id":"tra');
+
+    assert.equal(readLedger().length, 1);
+    restorePaperTradingState();
+    assert.equal(paperTrades.length, 1);
+  });
+
+  test('replays the balance changes it recorded', () => {
+    adjustPaperBalance('sonic', 'USDC', -250);
+    adjustPaperBalance('sonic', 'USDT', 249.9);
+    const recorded = { ...paperBalances.sonic };
+
+    resetState();
+    restorePaperTradingState();
+
+    assert.deepEqual(paperBalances.sonic, recorded);
+    assert.equal(getTokenBalance('sonic', 'USDC'), 49750);
+  });
+
+  test('archives the ledger and starts empty when reset', () => {
+    write({ type: 'trade', trade });
+
+    restorePaperTradingState(true);
+
+    assert.equal(existsSync(CONFIG.LEDGER_PATH), false);
+    assert.equal(paperTrades.length, 0);
+    const archived = readdirSync(path.dirname(CONFIG.LEDGER_PATH)).filter(file => file.startsWith('ledger.jsonl.') && file.endsWith('.bak'));
+    assert.equal(archived.length, 1);
+  });
+});
@@ -0,0 +1,169 @@
+import './setup';
+import { test, describe, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CONFIG } from '../src/clients';
+import { setClock } from '../src/utils';
+import { emitAlert, type Alert } from '../src/alerts';
+import { startNotifier, createMockSink, buildDailyDigest } from '../src/notifier';
+import { paperTrades, type PaperTrade } from '../src/arbitrage';
+
+const HOUR_MS = 3600000;
+const START = Date.parse('2026-03-02T12:00:00Z');
+
+let time = START;
+setClock(() => time);
+
+const defaults = { ...CONFIG };
+
+beforeEach(() => {
+  time = START;
+});
+
+afterEach(() => {
+  Object.assign(CONFIG, defaults);
+  paperTrades.splice(0);
+});
+
+// A fresh notifier with its own rate limiter; notifiers started by earlier tests keep listening to their own sinks
+function startMockNotifier() {
+  const sink = createMockSink();
+  startNotifier([sink]);
+  return sink;
+}
+
+function alert(fields: Partial<Alert> = {}): Omit<Alert, 'timestamp'> {
+  return { type: 'trade-failed', severity: 'warning', message: 'second leg failed', ...fields };
+}
+
+function trade(fields: Partial<PaperTrade>): PaperTrade {
+  return {
+    id: `trade_${paperTrades.length}`,
+    sourceChain: 'avalanche',
+    targetChain: 'sonic',
+    sourcePool: 'pharaoh-avalanche-usdc-usdt',
+    targetPool: 'shadow-sonic-usdc-usdt',
+    token: 'USDC',
+    bridgeToken: 'USDT',
+    sourcePrice: 1,
+    targetPrice: 1.001,
+    amount: 1000,
+    profit: 1,
+    gasCost: 0.1,
+    bridge: 'Stargate',
+    bridgeCost: 0.25,
+    netProfit: 0.65,
+    timestamp: time,
+    status: 'executed',
+    ...fields,
+  };
+}
+
+describe('alert rules', () => {
+  test('forwards alerts with the severity icon and type', () => {
+    const sink = startMockNotifier();
+    emitAlert(alert());
+
+    assert.equal(sink.sent.length, 1);
+    assert.equal(sink.sent[0].text, '⚠️ [trade-failed] second leg failed');
+    assert.equal(sink.sent[0].alert.timestamp, START);
+  });
+
+  test('only forwards opportunities at or above NOTIFY_OPPORTUNITY_MIN_BPS', () => {
+    CONFIG.NOTIFY_OPPORTUNITY_MIN_BPS = 10;
+    const sink = startMockNotifier();
+
+    emitAlert(alert({ type: 'opportunity', severity: 'info', key: 'a', details: { marginBps: 9.9 } }));
+    emitAlert(alert({ type: 'opportunity', severity: 'info', key: 'b' }));
+    emitAlert(alert({ type: 'opportunity', severity: 'info', key: 'c', details: { marginBps: 10 } }));
+
+    assert.deepEqual(sink.sent.map(({ alert }) => alert.key), ['c']);
+  });
+
+  test('forwards only the types listed in NOTIFY_EVENTS', () => {
+    CONFIG.NOTIFY_EVENTS = 'rpc-down, trade-settled';
+    const sink = startMockNotifier();
+
+    emitAlert(alert({ type: 'trade-failed' }));
+    emitAlert(alert({ type: 'rpc-down', key: 'sonic' }));
+    emitAlert(alert({ type: 'trade-settled', severity: 'info' }));
+
+    assert.deepEqual(sink.sent.map(({ alert }) => alert.type), ['rpc-down', 'trade-settled']);
+  });
+});
+
+describe('rate limiter', () => {
+  test('sends one notification per condition per cooldown, then counts what was suppressed', () => {
+    CONFIG.NOTIFY_COOLDOWN_MS = 60000;
+    const sink = startMockNotifier();
+
+    emitAlert(alert({ type: 'rpc-down', key: 'sonic' }));
+    emitAlert(alert({ type: 'rpc-down', key: 'sonic' }));
+    emitAlert(alert({ type: 'rpc-down', key: 'avalanche' }));
+    time += 30000;
+    emitAlert(alert({ type: 'rpc-down', key: 'sonic' }));
+    time += 30000;
+    emitAlert(alert({ type: 'rpc-down', key: 'sonic', message: 'still down' }));
+
+    assert.deepEqual(sink.sent.map(({ alert }) => alert.key), ['sonic', 'avalanche', 'sonic']);
+    assert.equal(sink.sent[2].text, '⚠️ [rpc-down] still down (+2 similar suppressed)');
+  });
+
+  test('caps notifications per hour, except critical ones', () => {
+    CONFIG.NOTIFY_MAX_PER_HOUR = 2;
+    const sink = startMockNotifier();
+
+    for (const key of ['a', 'b', 'c']) {
+      emitAlert(alert({ key }));
+    }
+    emitAlert(alert({ type: 'oracle-unavailable', severity: 'critical', key: 'sonic-S' }));
+    assert.deepEqual(sink.sent.map(({ alert }) => alert.key), ['a', 'b', 'sonic-S']);
+
+    // The window slides: an hour later the cap has room again
+    time += HOUR_MS;
+    emitAlert(alert({ key: 'd' }));
+    assert.equal(sink.sent.length, 4);
+  });
+});
+
+describe('daily digest', () => {
+  test('sums the trades settled in the last 24 hours', () => {
+    paperTrades.push(
+      trade({ netProfit: 5, settledAt: time - 25 * HOUR_MS }),
+      trade({ netProfit: 2, settledAt: time - 2 * HOUR_MS }),
+      trade({ netProfit: -0.5, status: 'failed', settledAt: time - HOUR_MS }),
+      trade({ netProfit: 1, status: 'pending' }),
+    );
+
+    const digest = buildDailyDigest();
+
+    assert.equal(digest.type, 'daily-digest');
+    assert.equal(digest.details?.dayTrades, 2);
+    assert.equal(digest.details?.dayProfit, 1.5);
+    assert.match(digest.message, /^Daily P&L digest for 2026-03-02/);
+    assert.match(digest.message, /Last 24h: 2 trades settled \(1 failed\), net \$1\.50/);
+    assert.match(digest.message, /Pending: 1 trades awaiting settlement/);
+  });
+
+  test('is sent once a day at NOTIFY_DIGEST_HOUR_UTC', () => {
+    CONFIG.NOTIFY_DIGEST_HOUR_UTC = 13;
+    mock.timers.enable({ apis: ['setInterval'] });
+    try {
+      const sink = startMockNotifier();
+      const digests = () => sink.sent.filter(({ alert }) => alert.type === 'daily-digest').length;
+
+      time += 59 * 60000;
+      mock.timers.tick(59 * 60000);
+      assert.equal(digests(), 0);
+
+      time += 60000;
+      mock.timers.tick(60000);
+      assert.equal(digests(), 1);
+
+      time += 60 * 60000;
+      mock.timers.tick(60 * 60000);
+      assert.equal(digests(), 1);
+    } finally {
+      mock.timers.reset();
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import './setup';
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PublicClient } from 'viem';
+import { CONFIG } from '../src/clients';
+import { getPoolAdapter, type ReservesPoolState } from '../src/pools';
+import type { ClPoolState } from '../src/simulator';
+import type { PoolMetadata } from '../src/getters';
+
+const stable = getPoolAdapter('solidly-stable');
+const v2 = getPoolAdapter('uniswap-v2');
+
+function metadata(decimals0 = 6, decimals1 = 6): PoolMetadata {
+  return {
+    id: 'test-pool',
+    type: 'solidly-stable',
+    dexName: 'Test',
+    chain: 'avalanche',
+    address: '0x0000000000000000000000000000000000000001',
+    token0: { symbol: 'USDC', canonical: 'USDC', decimals: decimals0, address: '0x0000000000000000000000000000000000000002' },
+    token1: { symbol: 'USDT', canonical: 'USDT', decimals: decimals1, address: '0x0000000000000000000000000000000000000003' },
+  };
+}
+
+function reserves(reserve0: bigint, reserve1: bigint, fee = 100): ReservesPoolState {
+  return { reserve0, reserve1, fee, timestamp: 0 };
+}
+
+// x³y + xy³ in whole tokens
+function invariant(x: number, y: number): number {
+  return x * x * x * y + x * y * y * y;
+}
+
+const USD6 = 10n ** 6n;
+
+describe('Solidly stable pools', () => {
+  test('price a balanced pool at 1 and an imbalanced one above 1 for the scarce token', () => {
+    assert.equal(stable.getSpotPrice(reserves(1_000_000n * USD6, 1_000_000n * USD6), metadata()), 1);
+    assert.ok(stable.getSpotPrice(reserves(1_000_000n * USD6, 3_000_000n * USD6), metadata()) > 1);
+  });
+
+  test('fill close to 1:1 where a constant-product pool with the same reserves would slip', () => {
+    const state = reserves(1_000_000n * USD6, 1_000_000n * USD6);
+    const amountIn = 100_000n * USD6;
+
+    const stableOut = stable.quoteExactInput(state, metadata(), true, amountIn);
+    const v2Out = v2.quoteExactInput(state, metadata(), true, amountIn);
+
+    assert.equal(stableOut.complete, true);
+    assert.equal(stableOut.feeAmount, amountIn * 100n / 1_000_000n);
+    assert.ok(stableOut.amountOut > 99_000n * USD6, `stable out ${stableOut.amountOut}`);
+    assert.ok(stableOut.amountOut < amountIn - stableOut.feeAmount);
+    assert.ok(v2Out.amountOut < 91_000n * USD6, `v2 out ${v2Out.amountOut}`);
+  });
+
+  test('keep the invariant once the fee is taken out', () => {
+    const state = reserves(2_000_000n * USD6, 1_500_000n * USD6);
+    const amountIn = 250_000n * USD6;
+    const { amountOut, feeAmount } = stable.quoteExactInput(state, metadata(), false, amountIn);
+
+    const before = invariant(2_000_000, 1_500_000);
+    const after = invariant(2_000_000 - Number(amountOut) / 1e6, 1_500_000 + Number(amountIn - feeAmount) / 1e6);
+    assert.ok(after >= before * (1 - 1e-12) && after <= before * (1 + 1e-9), `k ${before} → ${after}`);
+  });
+
+  test('scale tokens with different decimals to a common precision', () => {
+    const meta = metadata(6, 18);
+    const state = reserves(1_000_000n * USD6, 1_000_000n * 10n ** 18n);
+
+    const oneForZero = stable.quoteExactInput(state, meta, false, 1000n * 10n ** 18n);
+    const zeroForOne = stable.quoteExactInput(state, meta, true, 1000n * USD6);
+
+    assert.ok(oneForZero.amountOut > 999n * USD6 && oneForZero.amountOut < 1000n * USD6, `out ${oneForZero.amountOut}`);
+    assert.ok(zeroForOne.amountOut > 999n * 10n ** 18n && zeroForOne.amountOut < 1000n * 10n ** 18n, `out ${zeroForOne.amountOut}`);
+  });
+
+  test('fill nothing from an empty pool', () => {
+    const result = stable.quoteExactInput(reserves(0n, 1_000_000n * USD6), metadata(), true, 1000n * USD6);
+    assert.equal(result.complete, false);
+    assert.equal(result.amountOut, 0n);
+  });
+});
+
+describe('constant-product pools', () => {
+  test('match UniswapV2Library.getAmountOut', () => {
+    // 1000 in at 0.3% against 1M/1M: 997 * 1M / (1M + 997)
+    const result = v2.quoteExactInput(reserves(1_000_000n * USD6, 1_000_000n * USD6, 3000), metadata(), true, 1000n * USD6);
+    assert.equal(result.amountOut, 997n * USD6 * 1_000_000n * USD6 / (1_000_000n * USD6 + 997n * USD6));
+  });
+});
+
+describe('concentrated-liquidity state', () => {
+  test('loads only the ticks within TICK_RANGE_BPS, with one multicall for the bitmap and one for the ticks', async () => {
+    const defaultRange = CONFIG.TICK_RANGE_BPS;
+    CONFIG.TICK_RANGE_BPS = 10; // 11 ticks either way at tick spacing 1
+    const multicalls: Array<{ functionName: string; args: number[] }> = [];
+    // Initialized ticks: -56 and -1 in word -1, 5 and 20 in word 0
+    const bitmaps: Record<number, bigint> = { [-1]: (1n << 200n) | (1n << 255n), 0: (1n << 5n) | (1n << 20n) };
+    const client = {
+      async readContract({ functionName }: { functionName: string }) {
+        return {
+          slot0: [2n ** 96n, 0, 0, 0, 0, 0, true],
+          liquidity: 10n ** 18n,
+          fee: 100,
+          tickSpacing: 1,
+        }[functionName];
+      },
+      async multicall({ contracts }: { contracts: Array<{ functionName: string; args: [number] }> }) {
+        multicalls.push({ functionName: contracts[0].functionName, args: contracts.map(({ args }) => args[0]) });
+        return contracts.map(({ functionName, args: [key] }) => functionName === 'tickBitmap' ? bitmaps[key] ?? 0n : [1n, BigInt(key)]);
+      },
+    } as unknown as PublicClient;
+
+    try {
+      const state = await getPoolAdapter('uniswap-v3').loadState(client, { ...metadata(), type: 'uniswap-v3' }) as ClPoolState;
+
+      assert.deepEqual(multicalls, [{ functionName: 'tickBitmap', args: [-1, 0] }, { functionName: 'ticks', args: [-1, 5] }]);
+      assert.deepEqual([...state.ticks], [[-1, -1n], [5, 5n]]);
+      assert.equal(state.minLoadedTick, -11);
+      assert.equal(state.maxLoadedTick, 11);
+    } finally {
+      CONFIG.TICK_RANGE_BPS = defaultRange;
+    }
+  });
+});
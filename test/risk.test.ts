@@ -0,0 +1,140 @@
+import './setup';
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync, rmSync } from 'fs';
+import { CONFIG } from '../src/clients';
+import { setClock } from '../src/utils';
+import { onAlert, type Alert } from '../src/alerts';
+import { checkTradeRisk, getDailyRealizedLoss, setKillSwitch, type TradeProposal } from '../src/risk';
+import type { PaperTrade, PendingTransfer } from '../src/arbitrage';
+
+const HOUR_MS = 3600000;
+const NOW = Date.parse('2026-03-02T12:00:00Z');
+setClock(() => NOW);
+
+const defaults = { ...CONFIG };
+const alerts: Alert[] = [];
+onAlert(alert => alerts.push(alert));
+
+beforeEach(() => {
+  alerts.splice(0);
+});
+
+afterEach(() => {
+  Object.assign(CONFIG, defaults);
+  setKillSwitch(false, 'test');
+  rmSync(CONFIG.KILL_SWITCH_PATH, { force: true });
+});
+
+const proposal: TradeProposal = {
+  strategy: 'USDC-targeted',
+  buyPool: 'pharaoh-avalanche-usdc-usdt',
+  sellPool: 'shadow-sonic-usdc-usdt',
+  sourceChain: 'avalanche',
+  targetChain: 'sonic',
+  bridge: 'Stargate',
+  token: 'USDC',
+  amount: 1000,
+};
+
+function trade(fields: Partial<PaperTrade>): PaperTrade {
+  return {
+    id: 'trade',
+    sourceChain: 'avalanche',
+    targetChain: 'sonic',
+    sourcePool: proposal.buyPool,
+    targetPool: proposal.sellPool,
+    token: 'USDC',
+    sourcePrice: 1,
+    targetPrice: 1,
+    amount: 1000,
+    profit: 0,
+    gasCost: 0,
+    bridge: 'Stargate',
+    bridgeCost: 0,
+    netProfit: 0,
+    timestamp: NOW - 2 * HOUR_MS,
+    status: 'executed',
+    ...fields,
+  };
+}
+
+function transfer(fields: Partial<PendingTransfer>): PendingTransfer {
+  return {
+    tradeId: 'trade',
+    token: 'USDT',
+    amount: 1000,
+    fromChain: 'avalanche',
+    toChain: 'sonic',
+    bridge: 'Stargate',
+    arrivalTime: NOW + 60000,
+    status: 'in-transit',
+    ...fields,
+  };
+}
+
+describe('checkTradeRisk', () => {
+  test('approves a trade within every limit', () => {
+    assert.deepEqual(checkTradeRisk(proposal, [trade({})], [transfer({})]), { approved: true });
+    assert.equal(alerts.length, 0);
+  });
+
+  test('rejects while the kill switch is engaged, from the process or the kill switch file', () => {
+    setKillSwitch(true, 'test');
+    assert.equal(checkTradeRisk(proposal, [], []).limit, 'kill-switch');
+
+    setKillSwitch(false, 'test');
+    writeFileSync(CONFIG.KILL_SWITCH_PATH, '');
+    const decision = checkTradeRisk(proposal, [], []);
+    assert.equal(decision.limit, 'kill-switch');
+    assert.match(decision.reason!, /KILL/);
+  });
+
+  test('caps the notional of a single trade', () => {
+    CONFIG.RISK_MAX_NOTIONAL_USD = 999;
+    assert.equal(checkTradeRisk(proposal, [], []).limit, 'max-notional');
+  });
+
+  test('caps open exposure on each chain the trade touches', () => {
+    CONFIG.RISK_MAX_CHAIN_EXPOSURE_USD = 2500;
+    const openOnSonic = trade({ status: 'pending', sourceChain: 'sonic', targetChain: 'avalanche', amount: 1000 });
+
+    assert.equal(checkTradeRisk(proposal, [openOnSonic], []).approved, true);
+    const decision = checkTradeRisk(proposal, [openOnSonic, { ...openOnSonic, id: 'other', sourceChain: 'ethereum', targetChain: 'sonic' }], []);
+    assert.equal(decision.limit, 'max-chain-exposure');
+    assert.match(decision.reason!, /on sonic would be \$3000\.00/);
+  });
+
+  test('caps funds in transit through the proposed bridge', () => {
+    CONFIG.RISK_MAX_BRIDGE_EXPOSURE_USD = 1500;
+    assert.equal(checkTradeRisk(proposal, [], [transfer({ bridge: 'CCTP' }), transfer({ status: 'settled' })]).approved, true);
+    assert.equal(checkTradeRisk(proposal, [], [transfer({})]).limit, 'max-bridge-exposure');
+  });
+
+  test('stops trading once today\'s realized loss reaches the limit', () => {
+    CONFIG.RISK_MAX_DAILY_LOSS_USD = 50;
+    const yesterday = trade({ netProfit: -500, settledAt: Date.parse('2026-03-01T23:00:00Z') });
+    const today = [trade({ netProfit: -80, status: 'failed', settledAt: NOW - HOUR_MS }), trade({ netProfit: 30, settledAt: NOW - HOUR_MS })];
+
+    assert.equal(getDailyRealizedLoss([yesterday, ...today]), 50);
+    assert.equal(checkTradeRisk(proposal, [yesterday, ...today], []).limit, 'max-daily-loss');
+    assert.equal(checkTradeRisk(proposal, [yesterday, today[0]], []).limit, 'max-daily-loss');
+    assert.equal(checkTradeRisk(proposal, [yesterday], []).approved, true);
+  });
+
+  test('limits the number of trades per hour', () => {
+    CONFIG.RISK_MAX_TRADES_PER_HOUR = 2;
+    const recent = trade({ timestamp: NOW - HOUR_MS / 2 });
+    assert.equal(checkTradeRisk(proposal, [recent, trade({})], []).approved, true);
+    assert.equal(checkTradeRisk(proposal, [recent, recent], []).limit, 'max-trades-per-hour');
+  });
+
+  test('raises a risk-limit alert keyed by the limit for each rejection', () => {
+    CONFIG.RISK_MAX_NOTIONAL_USD = 10;
+    checkTradeRisk(proposal, [], []);
+
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].type, 'risk-limit');
+    assert.equal(alerts[0].key, 'max-notional');
+  });
+});
@@ -0,0 +1,10 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Imported first by every test file: keep tests off the real ledger and kill switch, and the output quiet
+const dir = mkdtempSync(path.join(tmpdir(), 'arbitrage-test-'));
+process.env.LEDGER_PATH = path.join(dir, 'ledger.jsonl');
+process.env.KILL_SWITCH_PATH = path.join(dir, 'KILL');
+process.env.LOG_LEVEL ??= 'error';
+process.on('exit', () => rmSync(dir, { recursive: true, force: true }));
@@ -0,0 +1,110 @@
+import './setup';
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MIN_TICK,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MAX_SQRT_RATIO,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  simulateExactInput,
+  getBitmapWordRange,
+  getTicksInBitmapWord,
+  type ClPoolState,
+} from '../src/simulator';
+
+const Q96 = 2n ** 96n;
+const E18 = 10n ** 18n;
+
+// A pool at price 1 (tick 0) with fee 0.05%, tick spacing 10 and the given initialized ticks
+function pool(liquidity: bigint, ticks: Array<[number, bigint]> = [], loadedRange = 2560): ClPoolState {
+  return {
+    sqrtPriceX96: Q96,
+    tick: 0,
+    liquidity,
+    fee: 500,
+    tickSpacing: 10,
+    ticks: new Map(ticks),
+    minLoadedTick: -loadedRange,
+    maxLoadedTick: loadedRange,
+    timestamp: 0,
+  };
+}
+
+describe('tick math', () => {
+  test('maps the tick bounds to the sqrt price bounds and tick 0 to price 1', () => {
+    assert.equal(getSqrtRatioAtTick(MIN_TICK), MIN_SQRT_RATIO);
+    assert.equal(getSqrtRatioAtTick(MAX_TICK), MAX_SQRT_RATIO);
+    assert.equal(getSqrtRatioAtTick(0), Q96);
+    assert.throws(() => getSqrtRatioAtTick(MAX_TICK + 1), /Tick out of range/);
+  });
+
+  test('finds the tick at or below a sqrt price', () => {
+    for (const tick of [MIN_TICK, -276325, -1, 0, 1, 60, 276324, MAX_TICK - 1]) {
+      const sqrtPrice = getSqrtRatioAtTick(tick);
+      assert.equal(getTickAtSqrtRatio(sqrtPrice), tick);
+      assert.equal(getTickAtSqrtRatio(sqrtPrice + 1n), tick);
+    }
+  });
+
+  test('decodes initialized ticks from a bitmap word', () => {
+    assert.deepEqual(getTicksInBitmapWord(-1, (1n << 255n) | 1n, 10), [-2560, -10]);
+    assert.deepEqual(getBitmapWordRange(-5, 10, 2), { minWord: -3, maxWord: 1 });
+  });
+});
+
+describe('exact-input swaps', () => {
+  test('fills a small swap inside one range at the spot price less the fee', () => {
+    const amountIn = 1000n * 10n ** 6n;
+    const result = simulateExactInput(pool(10n ** 6n * E18), true, amountIn);
+
+    assert.equal(result.complete, true);
+    assert.equal(result.ticksCrossed, 0);
+    assert.equal(result.amountIn, amountIn);
+    assert.equal(result.feeAmount, amountIn * 500n / 1_000_000n);
+    // Deep liquidity: the only loss beyond the fee is rounding
+    assert.ok(amountIn - result.feeAmount - result.amountOut <= 1n, `amountOut ${result.amountOut}`);
+    assert.ok(result.sqrtPriceX96After < Q96);
+    assert.equal(result.tickAfter, -1);
+  });
+
+  test('moves the price against the trader as the size grows', () => {
+    const state = pool(10n ** 4n * E18);
+    const small = simulateExactInput(state, false, 10n ** 15n);
+    const large = simulateExactInput(state, false, 10n ** 21n);
+
+    assert.ok(large.sqrtPriceX96After > small.sqrtPriceX96After);
+    // Average fill of the large swap is worse
+    assert.ok(large.amountOut * small.amountIn < small.amountOut * large.amountIn);
+    // The input state is not modified
+    assert.equal(state.sqrtPriceX96, Q96);
+  });
+
+  test('drops the liquidity of a position once the price leaves its range', () => {
+    const base = 10n ** 3n * E18;
+    const concentrated = 10n ** 5n * E18;
+    const withPosition = pool(base + concentrated, [[-60, concentrated], [60, -concentrated]]);
+    const baseOnly = pool(base + concentrated);
+
+    // Sized to push the price through tick -60 but stay inside the loaded range
+    const amountIn = 4n * 10n ** 20n;
+    const crossing = simulateExactInput(withPosition, true, amountIn);
+    const flat = simulateExactInput(baseOnly, true, amountIn);
+
+    assert.equal(crossing.ticksCrossed, 1);
+    assert.equal(crossing.complete, true);
+    assert.ok(crossing.tickAfter < -60);
+    assert.ok(crossing.amountOut < flat.amountOut);
+  });
+
+  test('reports a partial fill when the loaded ticks run out of liquidity', () => {
+    const liquidity = 10n ** 3n * E18;
+    const result = simulateExactInput(pool(liquidity, [[-60, liquidity], [60, -liquidity]]), true, 10n ** 21n);
+
+    assert.equal(result.complete, false);
+    assert.equal(result.ticksCrossed, 1);
+    assert.ok(result.amountIn < 10n ** 21n);
+    assert.equal(result.tickAfter, -2561);
+  });
+});
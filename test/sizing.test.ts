@@ -0,0 +1,77 @@
+import './setup';
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { solveOptimalTradeSize, type QuoteLegs, type TradeCosts } from '../src/sizing';
+import type { SwapQuote } from '../src/getters';
+
+// Fee-less constant-product fill, in whole tokens
+function leg(pool: string, amountIn: number, reserveIn: number, reserveOut: number): SwapQuote {
+  const amountOut = amountIn * reserveOut / (reserveIn + amountIn);
+  return {
+    pool,
+    chain: pool,
+    tokenIn: 'USDC',
+    tokenOut: 'USDT',
+    amountIn,
+    amountOut,
+    feeAmount: 0,
+    spotPrice: reserveOut / reserveIn,
+    executionPrice: amountOut / amountIn,
+    priceImpact: (1 - amountOut / amountIn / (reserveOut / reserveIn)) * 100,
+    ticksCrossed: 0,
+    result: { amountIn: 0n, amountOut: 0n, feeAmount: 0n, ticksCrossed: 0, complete: true },
+  };
+}
+
+// Buy 1% cheap on one pool, sell at par on the other
+const A = [1_000_000, 1_010_000];
+const B = [1_000_000, 1_000_000];
+const roundTrip: QuoteLegs = amount => {
+  const buy = leg('a', amount, A[0], A[1]);
+  return [buy, leg('b', buy.amountOut, B[0], B[1])];
+};
+
+// The two pools compose into one constant-product curve out = E1·x / (E0 + x), whose gross profit peaks at √(E0·E1) − E0
+const E0 = A[0] * B[0] / (B[0] + A[1]);
+const E1 = A[1] * B[1] / (B[0] + A[1]);
+const OPTIMUM = Math.sqrt(E0 * E1) - E0;
+
+const costs: TradeCosts = { gasUSD: 1, startTokenUSD: 1, bridgeUSD: () => 0.5 };
+
+describe('solveOptimalTradeSize', () => {
+  test('finds the size that maximizes net profit', () => {
+    const solution = solveOptimalTradeSize(roundTrip, costs, 1, 100_000);
+
+    assert.ok(solution);
+    assert.ok(Math.abs(solution.amount - OPTIMUM) / OPTIMUM < 0.001, `amount ${solution.amount}, optimum ${OPTIMUM}`);
+    assert.ok(solution.curve.some(point => point.amount === solution.amount));
+    assert.ok(solution.curve.every(point => point.netProfit <= solution.netProfit));
+  });
+
+  test('nets gas and the bridge fee off the gross profit valued in USD', () => {
+    const solution = solveOptimalTradeSize(roundTrip, { ...costs, startTokenUSD: 2 }, 1, 100_000)!;
+    assert.ok(Math.abs(solution.netProfit - (solution.grossProfit * 2 - 1 - 0.5)) < 1e-9);
+    assert.equal(solution.bridgeFee, 0.5);
+  });
+
+  test('stays within the allowed range', () => {
+    const solution = solveOptimalTradeSize(roundTrip, costs, 1, 1000)!;
+    assert.ok(solution.amount <= 1000 && solution.amount > 990, `amount ${solution.amount}`);
+  });
+
+  test('skips sizes the pools or bridges cannot carry', () => {
+    const limited: QuoteLegs = amount => {
+      if (amount > 2000) throw new Error('not enough liquidity loaded');
+      return roundTrip(amount);
+    };
+    const solution = solveOptimalTradeSize(limited, costs, 1, 100_000)!;
+    assert.ok(solution.amount <= 2000 && solution.amount > 1900, `amount ${solution.amount}`);
+
+    assert.equal(solveOptimalTradeSize(roundTrip, { ...costs, bridgeUSD: () => null }, 1, 100_000), null);
+  });
+
+  test('rejects an empty range', () => {
+    assert.equal(solveOptimalTradeSize(roundTrip, costs, 100, 10), null);
+    assert.equal(solveOptimalTradeSize(roundTrip, costs, 0, 10), null);
+  });
+});
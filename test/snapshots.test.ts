@@ -0,0 +1,52 @@
+import './setup';
+import { test, describe, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync, appendFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import { readSnapshots, type MarketSnapshot } from '../src/snapshots';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'snapshots-test-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function snapshot(timestamp: number): MarketSnapshot {
+  return { timestamp, pools: {}, chains: {}, decisions: [] };
+}
+
+// Written the way the recorder appends: one gzip member per line
+function record(file: string, ...snapshots: MarketSnapshot[]): void {
+  for (const entry of snapshots) {
+    appendFileSync(file, gzipSync(`${JSON.stringify(entry)}\n`));
+  }
+}
+
+describe('readSnapshots', () => {
+  test('reads every gzip member of a recorded file, oldest first', () => {
+    const file = path.join(dir, 'complete.jsonl.gz');
+    record(file, snapshot(3), snapshot(1), snapshot(2));
+
+    assert.deepEqual(readSnapshots(file).map(({ timestamp }) => timestamp), [1, 2, 3]);
+  });
+
+  test('keeps every complete line of a file whose last member was cut short', () => {
+    const file = path.join(dir, 'torn.jsonl.gz');
+    const last = gzipSync(`${JSON.stringify(snapshot(3))}\n`);
+    // Cut inside the gzip header, and halfway through the compressed line
+    for (const cut of [4, Math.floor(last.length / 2)]) {
+      writeFileSync(file, '');
+      record(file, snapshot(1), snapshot(2));
+      appendFileSync(file, last.subarray(0, cut));
+      assert.deepEqual(readSnapshots(file).map(({ timestamp }) => timestamp), [1, 2], `cut after ${cut} bytes`);
+    }
+  });
+
+  test('reads plain and gzipped files from a directory', () => {
+    const subdir = mkdtempSync(path.join(dir, 'day-'));
+    writeFileSync(path.join(subdir, '2026-03-01.jsonl'), `${JSON.stringify(snapshot(10))}\nnot json\n`);
+    record(path.join(subdir, '2026-03-02.jsonl.gz'), snapshot(20));
+    writeFileSync(path.join(subdir, 'notes.txt'), 'ignored');
+
+    assert.deepEqual(readSnapshots(subdir).map(({ timestamp }) => timestamp), [10, 20]);
+  });
+});